@@ -0,0 +1,48 @@
+import React, { createContext, useContext, useState } from 'react';
+import type { NexusAppStateProvider } from './appState';
+import type { NexusConnectivityProvider } from './connectivity';
+import { netInfoConnectivityProvider } from './netInfoConnectivityProvider';
+import { reactNativeAppStateProvider } from './reactNativeAppStateProvider';
+import { NexusSyncRegistry } from './registry';
+
+/** Registry used by the hooks rendered outside of a `NexusSyncProvider`. */
+export const defaultNexusSyncRegistry = new NexusSyncRegistry(
+  netInfoConnectivityProvider,
+  reactNativeAppStateProvider
+);
+
+const NexusSyncContext = createContext<NexusSyncRegistry>(
+  defaultNexusSyncRegistry
+);
+
+export interface NexusSyncProviderProps {
+  registry?: NexusSyncRegistry; // A new registry by default
+  connectivityProvider?: NexusConnectivityProvider; // NetInfo by default, ignored with a registry
+  appStateProvider?: NexusAppStateProvider; // AppState by default, ignored with a registry
+  children?: React.ReactNode;
+}
+
+/**
+ * Scopes the collections of its children: hooks below it sharing an
+ * `async_DATA_KEY` share one engine, apart from the rest of the app.
+ */
+export function NexusSyncProvider({
+  registry,
+  connectivityProvider = netInfoConnectivityProvider,
+  appStateProvider = reactNativeAppStateProvider,
+  children,
+}: NexusSyncProviderProps) {
+  const [ownRegistry] = useState(
+    () => new NexusSyncRegistry(connectivityProvider, appStateProvider)
+  );
+
+  return (
+    <NexusSyncContext.Provider value={registry ?? ownRegistry}>
+      {children}
+    </NexusSyncContext.Provider>
+  );
+}
+
+export function useNexusSyncRegistry(): NexusSyncRegistry {
+  return useContext(NexusSyncContext);
+}
@@ -0,0 +1,45 @@
+import { runBackgroundSync } from '../backgroundSync';
+import { NexusSyncEngine } from '../engine';
+import { NexusSyncRegistry } from '../registry';
+import { MemoryStorageAdapter } from '../storage';
+
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock.js')
+);
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+type Note = { id: string; title: string; modificationDate: string };
+
+describe('runBackgroundSync', () => {
+  it('pushes the pending changes of registered collections', async () => {
+    const storage = new MemoryStorageAdapter();
+    const offline = new NexusSyncEngine<Note>({
+      async_DATA_KEY: 'NOTES',
+      storage,
+      idAttributeName: 'id',
+      modificationDateAttributeName: 'modificationDate',
+    });
+    offline.setOnline(false);
+    await offline.loadLocalData();
+    await offline.saveItem({ id: '', title: 'draft', modificationDate: '' });
+
+    const CREATE = jest.fn(async (item: Note) => ({ ...item, id: '1' }));
+    const pending = await runBackgroundSync(undefined, {
+      storage,
+      registry: new NexusSyncRegistry(),
+      collections: {
+        NOTES: {
+          idAttributeName: 'id',
+          modificationDateAttributeName: 'modificationDate',
+          remoteMethods: { CREATE },
+        },
+        TASKS: { idAttributeName: 'id' },
+      },
+    });
+
+    expect(CREATE).toHaveBeenCalledTimes(1);
+    expect(pending).toEqual({ NOTES: 0 });
+  });
+});
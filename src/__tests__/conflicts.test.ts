@@ -0,0 +1,144 @@
+import { lastWriteWins, threeWayMerge } from '../conflicts';
+import { NexusSyncEngine } from '../engine';
+import { MemoryStorageAdapter } from '../storage';
+
+type Task = { id: string; title: string; done: boolean; modifiedAt: string };
+
+const context = {
+  idAttributeName: 'id' as const,
+  modificationDateAttributeName: 'modifiedAt' as const,
+};
+
+describe('conflict resolvers', () => {
+  const base: Task = { id: '1', title: 'a', done: false, modifiedAt: '1' };
+
+  it('merges fields changed on different sides', () => {
+    const local = { ...base, title: 'local title', modifiedAt: '2' };
+    const remote = { ...base, done: true, modifiedAt: '3' };
+
+    expect(threeWayMerge(local, remote, base, context)).toEqual({
+      id: '1',
+      title: 'local title',
+      done: true,
+      modifiedAt: '2',
+    });
+  });
+
+  it('keeps the most recent side on last write wins', () => {
+    const local = { ...base, modifiedAt: '2023-10-02T10:00:00Z' };
+    const remote = { ...base, modifiedAt: '2023-10-01T10:00:00Z' };
+
+    expect(lastWriteWins(local, remote, base, context)).toBe('KEEP_LOCAL');
+    expect(lastWriteWins(remote, local, base, context)).toBe('KEEP_REMOTE');
+  });
+});
+
+describe('NexusSyncEngine conflicts', () => {
+  it('pushes the merged item when the remote changed meanwhile', async () => {
+    let remoteItems: Task[] = [
+      { id: '1', title: 'a', done: false, modifiedAt: '1' },
+    ];
+    const UPDATE = jest.fn(async (item: Task) => item);
+    const engine = new NexusSyncEngine<Task>({
+      async_DATA_KEY: 'TASKS',
+      storage: new MemoryStorageAdapter(),
+      idAttributeName: 'id',
+      modificationDateAttributeName: 'modifiedAt',
+      syncRemoteData: true,
+      conflictResolver: threeWayMerge,
+      remoteMethods: { GET: async () => remoteItems, UPDATE },
+    });
+
+    engine.setOnline(true);
+    await engine.sync();
+    engine.setOnline(false);
+    await engine.updateItem({ ...remoteItems[0]!, title: 'renamed' });
+
+    remoteItems = [{ id: '1', title: 'a', done: true, modifiedAt: '5' }];
+    engine.setOnline(true);
+    await engine.sync();
+
+    expect(UPDATE).toHaveBeenCalledTimes(1);
+    expect(UPDATE.mock.calls[0]![0]).toMatchObject({
+      title: 'renamed',
+      done: true,
+    });
+  });
+
+  it('keeps local edits of an item deleted remotely until resolved', async () => {
+    let remoteItems: Task[] = [
+      { id: '1', title: 'a', done: false, modifiedAt: '1' },
+    ];
+    const UPDATE = jest.fn(async (item: Task) => item);
+    const CREATE = jest.fn(async (item: Task) => ({ ...item, id: '2' }));
+    const engine = new NexusSyncEngine<Task>({
+      async_DATA_KEY: 'TASKS',
+      storage: new MemoryStorageAdapter(),
+      idAttributeName: 'id',
+      modificationDateAttributeName: 'modifiedAt',
+      syncRemoteData: true,
+      remoteMethods: { GET: async () => remoteItems, UPDATE, CREATE },
+    });
+
+    engine.setOnline(true);
+    await engine.sync();
+    engine.setOnline(false);
+    await engine.updateItem({ ...remoteItems[0]!, title: 'renamed' });
+
+    remoteItems = [];
+    engine.setOnline(true);
+    await engine.sync();
+
+    expect(UPDATE).not.toHaveBeenCalled();
+    expect(engine.getState().pendingConflicts).toEqual([
+      expect.objectContaining({
+        type: 'DELETED_REMOTELY',
+        itemId: '1',
+        localItem: expect.objectContaining({ title: 'renamed' }),
+      }),
+    ]);
+    expect(engine.getState().data.map((x) => x.title)).toEqual(['renamed']);
+
+    await engine.resolveConflict('1', 'KEEP_LOCAL');
+
+    expect(CREATE).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'renamed' }),
+      expect.anything()
+    );
+    expect(engine.getState().pendingConflicts).toEqual([]);
+    expect(engine.getState().numberOfChangesPending).toBe(0);
+  });
+
+  it('asks the resolver about items deleted locally but edited remotely', async () => {
+    let remoteItems: Task[] = [
+      { id: '1', title: 'a', done: false, modifiedAt: '1' },
+    ];
+    const DELETE = jest.fn(async (id: string) => id);
+    const deleteConflictResolver = jest.fn(() => 'KEEP_REMOTE' as const);
+    const engine = new NexusSyncEngine<Task>({
+      async_DATA_KEY: 'TASKS',
+      storage: new MemoryStorageAdapter(),
+      idAttributeName: 'id',
+      modificationDateAttributeName: 'modifiedAt',
+      syncRemoteData: true,
+      deleteConflictResolver,
+      remoteMethods: { GET: async () => remoteItems, DELETE },
+    });
+
+    engine.setOnline(true);
+    await engine.sync();
+    engine.setOnline(false);
+    await engine.deleteItem(remoteItems[0]!);
+
+    remoteItems = [{ id: '1', title: 'edited', done: false, modifiedAt: '2' }];
+    engine.setOnline(true);
+    await engine.sync();
+
+    expect(deleteConflictResolver).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'DELETED_LOCALLY', itemId: '1' })
+    );
+    expect(DELETE).not.toHaveBeenCalled();
+    expect(engine.getState().data).toEqual(remoteItems);
+    expect(engine.getState().pendingConflicts).toEqual([]);
+  });
+});
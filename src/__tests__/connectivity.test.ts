@@ -0,0 +1,50 @@
+import { FakeConnectivityProvider, checkReachability } from '../connectivity';
+import { NexusSyncRegistry } from '../registry';
+import { MemoryStorageAdapter } from '../storage';
+
+type Note = { id: string; title: string; modificationDate: string };
+
+describe('checkReachability', () => {
+  it('fails when the ping rejects, answers false or times out', async () => {
+    expect(await checkReachability(async () => 'pong')).toBe(true);
+    expect(
+      await checkReachability(async () => {
+        throw new Error('down');
+      })
+    ).toBe(false);
+    expect(await checkReachability(async () => false)).toBe(false);
+    expect(await checkReachability(() => new Promise(() => {}), 10)).toBe(
+      false
+    );
+  });
+});
+
+describe('connectivity', () => {
+  it('drives the engines and skips syncs while the backend is down', async () => {
+    const connectivity = new FakeConnectivityProvider(false);
+    const registry = new NexusSyncRegistry(connectivity);
+    let backendUp = false;
+    const GET = jest.fn(async () => [] as Note[]);
+    const engine = registry.getEngine<Note>({
+      async_DATA_KEY: 'NOTES',
+      storage: new MemoryStorageAdapter(),
+      idAttributeName: 'id',
+      modificationDateAttributeName: 'modificationDate',
+      remoteMethods: { GET, PING: async () => backendUp },
+    });
+    const release = registry.retain(engine);
+    expect(engine.getState().isOnline).toBe(false);
+
+    connectivity.setOnline(true);
+    expect(engine.getState().isOnline).toBe(true);
+    await engine.sync();
+    expect(engine.getState().isReachable).toBe(false);
+    expect(GET).not.toHaveBeenCalled();
+
+    backendUp = true;
+    await engine.sync();
+    expect(engine.getState().isReachable).toBe(true);
+    expect(GET).toHaveBeenCalledTimes(1);
+    release();
+  });
+});
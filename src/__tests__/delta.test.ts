@@ -0,0 +1,73 @@
+import { applyRemoteChanges } from '../delta';
+import { NexusSyncEngine } from '../engine';
+import { MemoryStorageAdapter } from '../storage';
+import type { NexusRemoteChanges } from '../types';
+
+type Note = { id: string; title: string; modificationDate: string };
+
+describe('applyRemoteChanges', () => {
+  it('replaces changed items, appends new ones and drops deleted ids', () => {
+    const items: Note[] = [
+      { id: '1', title: 'one', modificationDate: '' },
+      { id: '2', title: 'two', modificationDate: '' },
+    ];
+
+    expect(
+      applyRemoteChanges(
+        items,
+        {
+          changed: [
+            { id: '2', title: 'TWO', modificationDate: '' },
+            { id: '3', title: 'three', modificationDate: '' },
+          ],
+          deleted: ['1'],
+        },
+        'id'
+      ).map((x) => x.title)
+    ).toEqual(['TWO', 'three']);
+  });
+});
+
+describe('delta sync', () => {
+  it('asks for the changes since the stored cursor', async () => {
+    const storage = new MemoryStorageAdapter();
+    const cursors: (string | null)[] = [];
+    const responses: NexusRemoteChanges<Note>[] = [
+      {
+        changed: [
+          { id: '1', title: 'one', modificationDate: '' },
+          { id: '2', title: 'two', modificationDate: '' },
+        ],
+        deleted: [],
+        cursor: 'c1',
+      },
+      {
+        changed: [{ id: '3', title: 'three', modificationDate: '' }],
+        deleted: ['1'],
+        cursor: 'c2',
+      },
+    ];
+    const createEngine = () =>
+      new NexusSyncEngine<Note>({
+        async_DATA_KEY: 'NOTES',
+        storage,
+        idAttributeName: 'id',
+        modificationDateAttributeName: 'modificationDate',
+        remoteMethods: {
+          GET_CHANGES: async (cursor) => {
+            cursors.push(cursor);
+            return responses.shift() as NexusRemoteChanges<Note>;
+          },
+        },
+      });
+
+    await createEngine().sync();
+    // A fresh engine picks up the stored collection and cursor
+    const restarted = createEngine();
+    await restarted.sync();
+
+    expect(cursors).toEqual([null, 'c1']);
+    expect(restarted.getState().data.map((x) => x.id)).toEqual(['2', '3']);
+    expect(await storage.getItem('NOTES_cursor')).toBe(JSON.stringify('c2'));
+  });
+});
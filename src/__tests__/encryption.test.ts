@@ -0,0 +1,170 @@
+import { createCipheriv, randomBytes } from 'crypto';
+import { aesGcmDecrypt, aesGcmEncrypt } from '../aesGcm';
+import {
+  EncryptedStorageAdapter,
+  aesGcmCipher,
+  decodeBase64,
+  encodeBase64,
+} from '../encryption';
+import {
+  NexusSyncEngine,
+  deleteAllLocalSavedData,
+  getCollectionStorageKeys,
+} from '../engine';
+import { MemoryStorageAdapter, NEXUSSYNC_KEYS } from '../storage';
+
+type Note = { id: string; title: string; updatedAt?: string };
+
+const FIRST_KEY = { id: 'k1', key: '000102030405060708090a0b0c0d0e0f' };
+const SECOND_KEY = { id: 'k2', key: new Uint8Array(32).fill(7) };
+
+describe('aesGcm', () => {
+  it('matches the platform implementation', () => {
+    [
+      [16, 45],
+      [24, 0],
+      [32, 1000],
+    ].forEach(([keyLength = 16, length = 0]) => {
+      const key = randomBytes(keyLength);
+      const iv = randomBytes(12);
+      const plaintext = randomBytes(length);
+      const aad = randomBytes(length % 37);
+
+      const cipher = createCipheriv(`aes-${keyLength * 8}-gcm` as any, key, iv);
+      cipher.setAAD(aad);
+      const expected = Buffer.concat([
+        iv,
+        cipher.update(plaintext),
+        cipher.final(),
+        cipher.getAuthTag(),
+      ]);
+
+      const sealed = aesGcmEncrypt(key, iv, plaintext, aad);
+      expect(Buffer.from(sealed)).toEqual(expected);
+      expect(Buffer.from(aesGcmDecrypt(key, sealed, aad))).toEqual(plaintext);
+    });
+  });
+
+  it('opens what WebCrypto sealed, and the other way around', async () => {
+    const key = randomBytes(16);
+    const sealed = decodeBase64(await aesGcmCipher.encrypt('note', key, 'N'));
+    expect(
+      Buffer.from(aesGcmDecrypt(key, sealed, Buffer.from('N'))).toString()
+    ).toBe('note');
+
+    const ciphertext = encodeBase64(
+      aesGcmEncrypt(key, randomBytes(12), Buffer.from('task'), Buffer.from('T'))
+    );
+    await expect(aesGcmCipher.decrypt(ciphertext, key, 'T')).resolves.toBe(
+      'task'
+    );
+  });
+
+  it('rejects tampered payloads', () => {
+    const key = randomBytes(16);
+    const sealed = aesGcmEncrypt(key, randomBytes(12), randomBytes(10));
+    sealed[14] = 255 - sealed[14]!;
+
+    expect(() => aesGcmDecrypt(key, sealed)).toThrow(
+      'AES-GCM authentication failed'
+    );
+  });
+});
+
+describe('encryption at rest', () => {
+  it('encrypts every value the engine writes', async () => {
+    const storage = new MemoryStorageAdapter();
+    const engine = new NexusSyncEngine<Note>({
+      async_DATA_KEY: 'NOTES',
+      storage,
+      idAttributeName: 'id',
+      modificationDateAttributeName: 'updatedAt',
+      encryption: { key: FIRST_KEY },
+    });
+    await engine.loadLocalData();
+    const kept = await engine.saveItem({ id: '', title: 'secret' });
+    await engine.deleteItem(
+      await engine.saveItem({ id: '', title: 'secret too' })
+    );
+
+    const storedValues = await Promise.all(
+      getCollectionStorageKeys('NOTES').map((key) => storage.getItem(key))
+    );
+    const written = storedValues.filter((value) => value !== null);
+    expect(written.length).toBeGreaterThan(1);
+    written.forEach((value) => {
+      expect(value).toMatch(/^nexus-enc:1:k1:/);
+      expect(value).not.toContain('secret');
+    });
+    expect(JSON.parse((await storage.getItem(NEXUSSYNC_KEYS))!)).toEqual([
+      'NOTES',
+    ]);
+
+    const reopened = new NexusSyncEngine<Note>({
+      async_DATA_KEY: 'NOTES',
+      storage,
+      idAttributeName: 'id',
+      encryption: { key: async () => FIRST_KEY },
+    });
+    expect(await reopened.loadLocalData()).toEqual([kept]);
+  });
+
+  it('re-encrypts stored values with the current key on load', async () => {
+    const storage = new MemoryStorageAdapter({
+      NOTES: JSON.stringify({ version: 0, items: [{ id: '1', title: 'a' }] }),
+    });
+    await new EncryptedStorageAdapter(storage, { key: FIRST_KEY }).setItem(
+      'NOTES_base',
+      JSON.stringify({ 1: { id: '1', title: 'a' } })
+    );
+
+    const engine = new NexusSyncEngine<Note>({
+      async_DATA_KEY: 'NOTES',
+      storage,
+      idAttributeName: 'id',
+      encryption: { key: SECOND_KEY, previousKeys: [FIRST_KEY] },
+    });
+
+    expect(await engine.loadLocalData()).toEqual([{ id: '1', title: 'a' }]);
+    expect(await storage.getItem('NOTES')).toMatch(/^nexus-enc:1:k2:/);
+    expect(await storage.getItem('NOTES_base')).toMatch(/^nexus-enc:1:k2:/);
+    expect(
+      await new EncryptedStorageAdapter(storage, { key: SECOND_KEY }).getItem(
+        'NOTES_base'
+      )
+    ).toBe(JSON.stringify({ 1: { id: '1', title: 'a' } }));
+  });
+
+  it('wipes the records of encrypted collections', async () => {
+    const storage = new MemoryStorageAdapter();
+    const engine = new NexusSyncEngine<Note>({
+      async_DATA_KEY: 'NOTES',
+      storage,
+      idAttributeName: 'id',
+      storageLayout: 'RECORDS',
+      encryption: { key: FIRST_KEY },
+    });
+    await engine.loadLocalData();
+    await engine.replaceData([{ id: '1', title: 'secret' }]);
+    engine.dispose();
+
+    // The index can not be read without the key, nothing is lost track of
+    await expect(deleteAllLocalSavedData(storage)).rejects.toThrow();
+    expect(await storage.getItem('NOTES_record_1')).not.toBeNull();
+
+    await deleteAllLocalSavedData(storage, { key: FIRST_KEY });
+    expect(await storage.getItem('NOTES_record_1')).toBeNull();
+    expect(await storage.getItem('NOTES_index')).toBeNull();
+  });
+
+  it('does not open a value moved to another key', async () => {
+    const storage = new MemoryStorageAdapter();
+    const encrypted = new EncryptedStorageAdapter(storage, { key: FIRST_KEY });
+    await encrypted.setItem('NOTES', '[]');
+    await storage.setItem('OTHER', (await storage.getItem('NOTES'))!);
+
+    await expect(encrypted.getItem('OTHER')).rejects.toThrow(
+      'AES-GCM authentication failed'
+    );
+  });
+});
@@ -0,0 +1,464 @@
+import { NexusSyncEngine } from '../engine';
+import { NexusSyncError, NexusSyncErrorCode } from '../errors';
+import { MemoryStorageAdapter } from '../storage';
+import type { NexusBatchChange } from '../types';
+
+type Note = { id: string; title: string; modificationDate: string };
+
+const createRemote = (initial: Note[] = []) => {
+  let items = [...initial];
+  let nextId = 100;
+  return {
+    get items() {
+      return items;
+    },
+    methods: {
+      GET: async () => [...items],
+      CREATE: async (item: Note) => {
+        const created = { ...item, id: String(nextId++) };
+        items.push(created);
+        return created;
+      },
+      UPDATE: async (item: Note) => {
+        items = items.map((x) => (x.id === item.id ? item : x));
+        return item;
+      },
+      DELETE: async (id: string) => {
+        items = items.filter((x) => x.id !== id);
+        return id;
+      },
+    },
+  };
+};
+
+const createEngine = (
+  remote: ReturnType<typeof createRemote>,
+  storage = new MemoryStorageAdapter()
+) =>
+  new NexusSyncEngine<Note>({
+    async_DATA_KEY: 'NOTES',
+    storage,
+    idAttributeName: 'id',
+    modificationDateAttributeName: 'modificationDate',
+    syncRemoteData: true,
+    remoteMethods: remote.methods,
+  });
+
+describe('NexusSyncEngine', () => {
+  it('replays offline changes once back online', async () => {
+    const remote = createRemote([
+      { id: '1', title: 'one', modificationDate: '' },
+    ]);
+    const engine = createEngine(remote);
+    engine.setOnline(false);
+    await engine.loadLocalData();
+
+    const created = await engine.saveItem({
+      id: '',
+      title: 'new',
+      modificationDate: '',
+    });
+    await engine.updateItem({ ...created, title: 'renamed' });
+    await engine.deleteItem({ id: '1', title: 'one', modificationDate: '' });
+    expect(engine.getState().numberOfChangesPending).toBe(3);
+
+    engine.setOnline(true);
+    await engine.sync();
+
+    expect(remote.items.map((x) => x.title)).toEqual(['renamed']);
+    expect(engine.getState().data).toEqual(remote.items);
+    expect(engine.getState().numberOfChangesPending).toBe(0);
+    expect(engine.getState().isRemoteDataUptoDate).toBe(true);
+  });
+
+  it('queues online changes behind the pending ones', async () => {
+    const remote = createRemote([
+      { id: '1', title: 'one', modificationDate: '' },
+    ]);
+    const deleted: string[] = [];
+    const deleteRemotely = remote.methods.DELETE;
+    remote.methods.DELETE = async (id) => {
+      deleted.push(id);
+      return deleteRemotely(id);
+    };
+    const engine = createEngine(remote);
+    await engine.sync();
+    engine.setOnline(false);
+    const one = engine.getState().data[0]!;
+    await engine.updateItem({ ...one, title: 'A' });
+    engine.setOnline(true);
+    await engine.updateItem({ ...one, title: 'B' });
+    await engine.sync();
+
+    expect(remote.items.map((x) => x.title)).toEqual(['B']);
+    expect(engine.getState().data.map((x) => x.title)).toEqual(['B']);
+
+    engine.setOnline(false);
+    const draft = await engine.saveItem({
+      id: '',
+      title: 'draft',
+      modificationDate: '',
+    });
+    engine.setOnline(true);
+    await engine.deleteItem(draft);
+    await engine.sync();
+
+    expect(deleted).toEqual([]);
+    expect(remote.items.map((x) => x.title)).toEqual(['B']);
+    expect(engine.getState().errors).toEqual([]);
+  });
+
+  it('keeps pending changes across restarts', async () => {
+    const storage = new MemoryStorageAdapter();
+    const remote = createRemote();
+    const engine = createEngine(remote, storage);
+    engine.setOnline(false);
+    await engine.saveItem({ id: '', title: 'draft', modificationDate: '' });
+
+    const restarted = createEngine(remote, storage);
+    await restarted.loadLocalData();
+    expect(restarted.getState().data.map((x) => x.title)).toEqual(['draft']);
+    expect(restarted.getState().numberOfChangesPending).toBe(1);
+  });
+
+  it('notifies subscribers of state changes', async () => {
+    const engine = createEngine(createRemote());
+    const listener = jest.fn();
+    const unsubscribe = engine.subscribe(listener);
+
+    engine.setOnline(true);
+    unsubscribe();
+    engine.setOnline(false);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].isOnline).toBe(true);
+  });
+
+  it('moves failing operations to the dead letters without blocking others', async () => {
+    const remote = createRemote([
+      { id: '1', title: 'one', modificationDate: '' },
+      { id: '2', title: 'two', modificationDate: '' },
+    ]);
+    const UPDATE = remote.methods.UPDATE;
+    remote.methods.UPDATE = async (item: Note) => {
+      if (item.id === '1') {
+        throw new Error('rejected');
+      }
+      return UPDATE(item);
+    };
+    const engine = createEngine(remote);
+    engine.setOptions({ retryPolicy: { maxAttempts: 1 } });
+    engine.setOnline(false);
+    await engine.loadLocalData();
+    await engine.sync();
+
+    await engine.updateItem({ id: '1', title: 'uno', modificationDate: '' });
+    await engine.updateItem({ id: '2', title: 'dos', modificationDate: '' });
+    engine.setOnline(true);
+    await engine.sync();
+
+    expect(remote.items.map((x) => x.title)).toEqual(['one', 'dos']);
+    expect(engine.getState().deadLetters).toHaveLength(1);
+    expect(engine.getState().deadLetters[0]?.itemId).toBe('1');
+    expect(engine.getState().data.map((x) => x.title)).toEqual(['uno', 'dos']);
+
+    await engine.discardDeadLetter(engine.getState().deadLetters[0]!.id);
+    await engine.sync();
+    expect(engine.getState().data.map((x) => x.title)).toEqual(['one', 'dos']);
+    expect(engine.getState().isRemoteDataUptoDate).toBe(true);
+    engine.dispose();
+  });
+
+  it('reports structured errors to onError and keeps their history', async () => {
+    const remote = createRemote();
+    remote.methods.CREATE = async () => {
+      throw new Error('offline backend');
+    };
+    const onError = jest.fn();
+    const engine = createEngine(remote);
+    engine.setOptions({ onError });
+    // Another hook of the collection, passing fewer options
+    engine.setOptions({
+      onError: undefined,
+      idAttributeName: undefined,
+      remoteMethods: undefined,
+    });
+    engine.setOnline(true);
+
+    await expect(
+      engine.saveItem({ id: '', title: 'new', modificationDate: '' })
+    ).rejects.toBeInstanceOf(NexusSyncError);
+
+    const error: NexusSyncError = onError.mock.calls[0][0];
+    expect(error.code).toBe(NexusSyncErrorCode.CREATE_FAILED);
+    expect(error.operation).toBe('CREATE');
+    expect(error.retryable).toBe(true);
+    expect((error.cause as Error).message).toBe('offline backend');
+    expect(engine.getState().error).toBe(error);
+    expect(engine.getState().errors).toEqual([error]);
+
+    engine.clearErrors();
+    expect(engine.getState().errors).toEqual([]);
+  });
+
+  it('reports the lifecycle of a sync', async () => {
+    const remote = createRemote([
+      { id: '1', title: 'one', modificationDate: '' },
+    ]);
+    const events: string[] = [];
+    const onSyncComplete = jest.fn();
+    const engine = createEngine(remote);
+    engine.setOptions({
+      onSyncStart: () => events.push('start'),
+      onItemSynced: (event) =>
+        events.push(`${event.direction} ${event.type} ${event.itemId}`),
+      onSyncComplete,
+    });
+    engine.setOnline(false);
+    await engine.loadLocalData();
+    await engine.saveItem({ id: '', title: 'new', modificationDate: '' });
+
+    engine.setOnline(true);
+    await engine.sync();
+
+    expect(events).toEqual(['start', 'PUSH CREATE 100', 'PULL CREATE 1']);
+    expect(onSyncComplete).toHaveBeenCalledWith(
+      expect.objectContaining({ pushed: 1, pulled: 1, failed: 0, pending: 0 })
+    );
+  });
+
+  it('shows optimistic changes right away and rolls back rejected ones', async () => {
+    const remote = createRemote([
+      { id: '1', title: 'one', modificationDate: '' },
+    ]);
+    const engine = createEngine(remote);
+    engine.setOptions({ optimistic: true });
+    engine.setOnline(true);
+    await engine.sync();
+
+    const created = await engine.saveItem({
+      id: '',
+      title: 'new',
+      modificationDate: '',
+    });
+    expect(engine.getState().data.map((x) => x.title)).toEqual(['one', 'new']);
+    expect(engine.getItemSyncStatus(created.id).syncState).toBe(
+      'PENDING_CREATE'
+    );
+    await engine.flush();
+    expect(engine.getState().data.map((x) => x.id)).toEqual(['1', '100']);
+    expect(engine.getItemSyncStatus(created.id).syncState).toBe('SYNCED');
+
+    remote.methods.UPDATE = async () => {
+      throw new Error('rejected');
+    };
+    await engine.updateItem({ id: '1', title: 'uno', modificationDate: '' });
+    expect(engine.getState().data[0]?.title).toBe('uno');
+    await engine.flush();
+    expect(engine.getState().data[0]?.title).toBe('one');
+    expect(engine.getState().numberOfChangesPending).toBe(0);
+  });
+
+  it('queues rejected optimistic changes when asked to', async () => {
+    const remote = createRemote([
+      { id: '1', title: 'one', modificationDate: '' },
+    ]);
+    remote.methods.DELETE = async () => {
+      throw new Error('rejected');
+    };
+    const engine = createEngine(remote);
+    engine.setOptions({ optimistic: true, optimisticFailure: 'QUEUE' });
+    engine.setOnline(true);
+    await engine.sync();
+
+    await engine.deleteItem({ id: '1', title: 'one', modificationDate: '' });
+    await engine.flush();
+
+    expect(engine.getState().data).toEqual([]);
+    expect(engine.getItemSyncStatus('1')).toMatchObject({
+      syncState: 'PENDING_DELETE',
+      localVersion: 1,
+      lastError: expect.stringContaining('rejected'),
+    });
+    engine.dispose();
+  });
+
+  it('keeps sync bookkeeping out of the items', async () => {
+    const remote = createRemote();
+    const CREATE = jest.fn(remote.methods.CREATE);
+    remote.methods.CREATE = CREATE;
+    const engine = createEngine(remote);
+    engine.setOnline(false);
+    await engine.loadLocalData();
+
+    const created = await engine.saveItem({
+      id: '',
+      title: 'draft',
+      modificationDate: '',
+    });
+    await engine.updateItem({ ...created, title: 'final' });
+    expect(created).not.toHaveProperty('createdOffline');
+    expect(engine.getItemsWithStatus()[0]?.status).toMatchObject({
+      syncState: 'PENDING_CREATE',
+      localVersion: 2,
+    });
+
+    engine.setOnline(true);
+    await engine.sync();
+
+    expect(CREATE.mock.calls[0]?.[0]).not.toHaveProperty('createdOffline');
+    expect(engine.getItemSyncStatus(created.id)).toMatchObject({
+      syncState: 'SYNCED',
+      localVersion: 2,
+      lastSyncedAt: expect.any(Number),
+    });
+  });
+
+  it('pushes changes in batches when BATCH is provided', async () => {
+    const remote = createRemote([
+      { id: '1', title: 'one', modificationDate: '' },
+      { id: '2', title: 'two', modificationDate: '' },
+    ]);
+    const CREATE = jest.fn(remote.methods.CREATE);
+    let nextId = 200;
+    const BATCH = jest.fn(async (changes: NexusBatchChange<Note>[]) =>
+      changes.map((change) =>
+        change.itemId === '2'
+          ? { ok: false as const, error: 'locked' }
+          : {
+              ok: true as const,
+              item: { ...change.item!, id: String(nextId++) },
+            }
+      )
+    );
+    const engine = createEngine(remote);
+    engine.setOptions({
+      remoteMethods: { ...remote.methods, CREATE, BATCH },
+      batchSize: 2,
+      retryPolicy: { maxAttempts: 1 },
+    });
+    engine.setOnline(false);
+    await engine.loadLocalData();
+    await engine.saveItem({ id: '', title: 'a', modificationDate: '' });
+    await engine.saveItem({ id: '', title: 'b', modificationDate: '' });
+    await engine.updateItem({ id: '2', title: 'deux', modificationDate: '' });
+
+    engine.setOnline(true);
+    await engine.sync();
+
+    expect(CREATE).not.toHaveBeenCalled();
+    expect(BATCH.mock.calls.map(([changes]) => changes.length)).toEqual([2, 1]);
+    expect(engine.getState().deadLetters.map((op) => op.itemId)).toEqual(['2']);
+    expect(engine.getState().numberOfChangesPending).toBe(1);
+  });
+
+  it('runs one sync at a time and cancels it without counting a failure', async () => {
+    const remote = createRemote();
+    const GET = jest.fn(remote.methods.GET);
+    const CREATE = jest.fn(
+      (_item: Note, signal?: AbortSignal) =>
+        new Promise<Note>((_resolve, reject) =>
+          signal?.addEventListener('abort', () => reject(new Error('aborted')))
+        )
+    );
+    const onError = jest.fn();
+    const onSyncComplete = jest.fn();
+    const engine = createEngine(remote);
+    engine.setOptions({
+      remoteMethods: { ...remote.methods, GET, CREATE },
+      onError,
+      onSyncComplete,
+    });
+    engine.setOnline(false);
+    await engine.loadLocalData();
+    await engine.saveItem({ id: '', title: 'draft', modificationDate: '' });
+
+    engine.setOnline(true);
+    const syncs = [engine.sync(), engine.sync()];
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    engine.cancel();
+    await Promise.all(syncs);
+
+    expect(GET).toHaveBeenCalledTimes(1);
+    expect(CREATE).toHaveBeenCalledTimes(1);
+    expect(onError).not.toHaveBeenCalled();
+    expect(onSyncComplete.mock.calls[0][0].cancelled).toBe(true);
+    expect(engine.getState().deadLetters).toEqual([]);
+    expect(engine.getState().numberOfChangesPending).toBe(1);
+    expect(engine.getItemSyncStatus(engine.getState().data[0]!.id)).toEqual(
+      expect.objectContaining({ syncState: 'PENDING_CREATE', isSyncing: false })
+    );
+  });
+
+  it('patches edited items with the fields changed since the last sync', async () => {
+    const remote = createRemote([
+      { id: '1', title: 'one', modificationDate: 'v1' },
+    ]);
+    const UPDATE = jest.fn(remote.methods.UPDATE);
+    const PATCH = jest.fn(
+      async (id: string, changedFields: Partial<Note>) =>
+        ({
+          ...remote.items.find((x) => x.id === id)!,
+          ...changedFields,
+        } as Note)
+    );
+    const engine = createEngine(remote);
+    engine.setOptions({
+      remoteMethods: { ...remote.methods, UPDATE, PATCH },
+      versioning: 'SERVER',
+    });
+    engine.setOnline(true);
+    await engine.sync();
+
+    engine.setOnline(false);
+    await engine.updateItem({
+      id: '1',
+      title: 'renamed',
+      modificationDate: 'v1',
+    });
+    engine.setOnline(true);
+    await engine.sync();
+
+    expect(UPDATE).not.toHaveBeenCalled();
+    expect(PATCH).toHaveBeenCalledWith(
+      '1',
+      { title: 'renamed' },
+      'v1',
+      expect.anything()
+    );
+  });
+
+  it('polls while the app is active and resyncs on foreground', async () => {
+    jest.useFakeTimers();
+    const remote = createRemote();
+    const GET = jest.fn(remote.methods.GET);
+    const engine = createEngine(remote);
+    engine.setOptions({
+      remoteMethods: { ...remote.methods, GET },
+      syncInterval: 1000,
+      foregroundSyncGap: 5000,
+    });
+    const unsubscribe = engine.subscribe(() => undefined);
+    engine.setOnline(true);
+
+    jest.advanceTimersByTime(1000);
+    await engine.sync();
+    expect(GET).toHaveBeenCalledTimes(1);
+
+    engine.setActive(false);
+    jest.advanceTimersByTime(5000);
+    engine.setActive(true);
+    await engine.sync();
+    expect(GET).toHaveBeenCalledTimes(2);
+
+    // Back in the foreground too soon after the last sync
+    engine.setActive(false);
+    engine.setActive(true);
+    expect(GET).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    jest.advanceTimersByTime(5000);
+    expect(GET).toHaveBeenCalledTimes(2);
+    jest.useRealTimers();
+  });
+});
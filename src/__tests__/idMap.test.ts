@@ -0,0 +1,189 @@
+import { NexusSyncEngine } from '../engine';
+import { remapForeignKeys } from '../idMap';
+import { MemoryStorageAdapter } from '../storage';
+
+type Project = { id: string; name: string; updatedAt: string };
+type Task = { id: string; projectId: string; title: string; updatedAt: string };
+
+describe('remapForeignKeys', () => {
+  it('only copies items pointing to a remapped id', () => {
+    const task: Task = { id: '1', projectId: 'tmp', title: '', updatedAt: '' };
+    const idMaps = { PROJECTS: { tmp: '7' } };
+
+    expect(
+      remapForeignKeys(task, { projectId: 'PROJECTS' }, idMaps).projectId
+    ).toBe('7');
+    const other = { ...task, projectId: '3' };
+    expect(remapForeignKeys(other, { projectId: 'PROJECTS' }, idMaps)).toBe(
+      other
+    );
+  });
+});
+
+describe('temporary id remapping', () => {
+  it('points other collections to the id given by the remote', async () => {
+    const storage = new MemoryStorageAdapter();
+    const createdTasks: Task[] = [];
+    const projects = new NexusSyncEngine<Project>({
+      async_DATA_KEY: 'PROJECTS',
+      storage,
+      idAttributeName: 'id',
+      modificationDateAttributeName: 'updatedAt',
+      syncRemoteData: true,
+      remoteMethods: {
+        GET: async () => [],
+        CREATE: async (project) => ({ ...project, id: 'P1' }),
+      },
+    });
+    const tasks = new NexusSyncEngine<Task>({
+      async_DATA_KEY: 'TASKS',
+      storage,
+      idAttributeName: 'id',
+      modificationDateAttributeName: 'updatedAt',
+      syncRemoteData: true,
+      foreignKeys: { projectId: 'PROJECTS' },
+      remoteMethods: {
+        GET: async () => [],
+        CREATE: async (task) => {
+          createdTasks.push(task);
+          return { ...task, id: 'T1' };
+        },
+      },
+    });
+    // As the registry does when they are retained
+    projects.resume();
+    tasks.resume();
+    await Promise.all([projects.loadLocalData(), tasks.loadLocalData()]);
+
+    const project = await projects.saveItem({
+      id: '',
+      name: 'Home',
+      updatedAt: '',
+    });
+    await tasks.saveItem({
+      id: '',
+      projectId: project.id,
+      title: 'Paint',
+      updatedAt: '',
+    });
+
+    await projects.sync();
+    expect(projects.resolveId(project.id)).toBe('P1');
+    expect(tasks.getState().data[0]?.projectId).toBe('P1');
+
+    await tasks.sync();
+    expect(createdTasks[0]?.projectId).toBe('P1');
+
+    projects.dispose();
+    tasks.dispose();
+  });
+
+  it('holds back items pointing to one the remote has not created yet', async () => {
+    const storage = new MemoryStorageAdapter();
+    const createdTasks: Task[] = [];
+    const createEngine = <T extends Project | Task>(
+      async_DATA_KEY: string,
+      CREATE: (item: T) => Promise<T>,
+      foreignKeys?: Partial<Record<keyof T, string>>
+    ) =>
+      new NexusSyncEngine<T>({
+        async_DATA_KEY,
+        storage,
+        idAttributeName: 'id',
+        modificationDateAttributeName: 'updatedAt',
+        syncRemoteData: true,
+        foreignKeys,
+        remoteMethods: { GET: async () => [], CREATE },
+      });
+    const projects = createEngine<Project>('PROJECTS', async (project) => ({
+      ...project,
+      id: 'P1',
+    }));
+    const tasks = createEngine<Task>(
+      'TASKS',
+      async (task) => {
+        createdTasks.push(task);
+        return { ...task, id: `T${createdTasks.length}` };
+      },
+      { projectId: 'PROJECTS' }
+    );
+    // As the registry does when they are retained
+    projects.resume();
+    tasks.resume();
+    await Promise.all([projects.loadLocalData(), tasks.loadLocalData()]);
+
+    const project = await projects.saveItem({
+      id: '',
+      name: 'Home',
+      updatedAt: '',
+    });
+    await tasks.saveItem({
+      id: '',
+      projectId: project.id,
+      title: 'Paint',
+      updatedAt: '',
+    });
+    await tasks.saveItem({
+      id: '',
+      projectId: '7',
+      title: 'Shop',
+      updatedAt: '',
+    });
+
+    await tasks.sync();
+    expect(createdTasks.map(({ title }) => title)).toEqual(['Shop']);
+    expect(tasks.getState().numberOfChangesPending).toBe(1);
+
+    await projects.sync();
+    await tasks.sync();
+    expect(createdTasks[1]).toMatchObject({ title: 'Paint', projectId: 'P1' });
+
+    projects.dispose();
+    tasks.dispose();
+  });
+
+  it('gives each item created in the same millisecond its own id', async () => {
+    let nextId = 100;
+    const updated: Project[] = [];
+    const projects = new NexusSyncEngine<Project>({
+      async_DATA_KEY: 'PROJECTS',
+      storage: new MemoryStorageAdapter(),
+      idAttributeName: 'id',
+      modificationDateAttributeName: 'updatedAt',
+      syncRemoteData: true,
+      remoteMethods: {
+        GET: async () => [],
+        CREATE: async (project) => ({ ...project, id: String(nextId++) }),
+        UPDATE: async (project) => {
+          updated.push(project);
+          return project;
+        },
+      },
+    });
+    await projects.loadLocalData();
+    jest.spyOn(Date, 'now').mockReturnValue(1700000000000);
+
+    const created = await Promise.all(
+      Array.from({ length: 21 }, (_, i) =>
+        projects.saveItem({ id: '', name: `p${i}`, updatedAt: '' })
+      )
+    );
+    jest.restoreAllMocks();
+    expect(new Set(created.map(({ id }) => id)).size).toBe(21);
+
+    await projects.sync();
+    const remoteIds = projects.getState().data.map(({ id }) => id);
+    expect(new Set(remoteIds).size).toBe(21);
+    expect(remoteIds.every((id) => Number(id) >= 100)).toBe(true);
+
+    projects.setOnline(true);
+    const first = projects.getState().data.find(({ id }) => id === '100')!;
+    await projects.updateItem({ ...first, name: 'renamed' });
+    expect(updated.map(({ id }) => id)).toEqual(['100']);
+    expect(
+      projects.getState().data.filter(({ name }) => name === 'renamed')
+    ).toHaveLength(1);
+
+    projects.dispose();
+  });
+});
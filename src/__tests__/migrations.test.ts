@@ -0,0 +1,58 @@
+import { NexusSyncEngine } from '../engine';
+import { NexusSyncErrorCode } from '../errors';
+import { MemoryStorageAdapter } from '../storage';
+
+type Note = { id: string; title: string; tags: string[] };
+
+const createEngine = (
+  storage: MemoryStorageAdapter,
+  migrations: ((items: any[]) => any[])[]
+) =>
+  new NexusSyncEngine<Note>({
+    async_DATA_KEY: 'NOTES',
+    storage,
+    idAttributeName: 'id',
+    modificationDateAttributeName: 'title',
+    migrations,
+  });
+
+describe('stored data migrations', () => {
+  it('upgrades collections stored before the envelope existed', async () => {
+    const storage = new MemoryStorageAdapter();
+    await storage.setItem('NOTES', JSON.stringify([{ id: '1', name: 'one' }]));
+    const engine = createEngine(storage, [
+      (items) => items.map(({ name, ...item }) => ({ ...item, title: name })),
+      (items) => items.map((item) => ({ ...item, tags: [] })),
+    ]);
+
+    expect(await engine.loadLocalData()).toEqual([
+      { id: '1', title: 'one', tags: [] },
+    ]);
+    expect(JSON.parse((await storage.getItem('NOTES'))!)).toEqual({
+      version: 2,
+      items: [{ id: '1', title: 'one', tags: [] }],
+    });
+  });
+
+  it('reports a failed migration and keeps the stored items', async () => {
+    const storage = new MemoryStorageAdapter();
+    const stored = JSON.stringify({ version: 1, items: [{ id: '1' }] });
+    await storage.setItem('NOTES', stored);
+    const onError = jest.fn();
+    const engine = createEngine(storage, [
+      (items) => items,
+      () => {
+        throw new Error('boom');
+      },
+    ]);
+    engine.setOptions({ onError });
+
+    expect(await engine.loadLocalData()).toEqual([]);
+    await engine.replaceData([{ id: '2', title: 'two', tags: [] }]);
+
+    expect(onError.mock.calls[0][0].code).toBe(
+      NexusSyncErrorCode.MIGRATION_FAILED
+    );
+    expect(await storage.getItem('NOTES')).toBe(stored);
+  });
+});
@@ -0,0 +1,153 @@
+import {
+  NexusOutbox,
+  applyOperations,
+  coalesceOperations,
+  type NexusOperation,
+  getDeadLetterKey,
+  getOutboxKey,
+} from '../outbox';
+import { MemoryStorageAdapter } from '../storage';
+
+type Note = { id: string; title: string };
+
+describe('NexusOutbox', () => {
+  let storage: MemoryStorageAdapter;
+
+  beforeEach(() => {
+    storage = new MemoryStorageAdapter();
+  });
+
+  it('persists operations in the order they were recorded', async () => {
+    const outbox = new NexusOutbox<Note>(
+      storage,
+      getOutboxKey('NOTES'),
+      getDeadLetterKey('NOTES')
+    );
+    await outbox.load();
+    await outbox.enqueue('CREATE', 't1', { id: 't1', title: 'a' });
+    await outbox.enqueue('UPDATE', 't1', { id: 't1', title: 'b' });
+    await outbox.enqueue('DELETE', 't1');
+
+    const reloaded = new NexusOutbox<Note>(
+      storage,
+      getOutboxKey('NOTES'),
+      getDeadLetterKey('NOTES')
+    );
+    const operations = await reloaded.load();
+    expect(operations.map((op) => op.type)).toEqual([
+      'CREATE',
+      'UPDATE',
+      'DELETE',
+    ]);
+  });
+
+  it('remaps the remaining operations of an item to its remote id', async () => {
+    const outbox = new NexusOutbox<Note>(
+      storage,
+      getOutboxKey('NOTES'),
+      getDeadLetterKey('NOTES')
+    );
+    await outbox.load();
+    await outbox.enqueue('UPDATE', 't1', { id: 't1', title: 'b' });
+    await outbox.enqueue('DELETE', 't1');
+    await outbox.remapItemId('t1', '42', 'id');
+
+    expect(outbox.list().map((op) => op.itemId)).toEqual(['42', '42']);
+    expect(outbox.list()[0]?.payload).toEqual({ id: '42', title: 'b' });
+  });
+});
+
+const baseOperation = { id: 'op', timestamp: 0, attempts: 0 };
+
+describe('applyOperations', () => {
+  it('lays pending changes over remote data', () => {
+    const remote: Note[] = [
+      { id: '1', title: 'one' },
+      { id: '2', title: 'two' },
+    ];
+    const result = applyOperations(
+      remote,
+      [
+        {
+          ...baseOperation,
+          type: 'UPDATE',
+          itemId: '1',
+          payload: { id: '1', title: 'uno' },
+        },
+        { ...baseOperation, type: 'DELETE', itemId: '2' },
+        {
+          ...baseOperation,
+          type: 'CREATE',
+          itemId: '3',
+          payload: { id: '3', title: 'three' },
+        },
+      ],
+      'id'
+    );
+
+    expect(result).toEqual([
+      { id: '1', title: 'uno' },
+      { id: '3', title: 'three' },
+    ]);
+  });
+});
+
+describe('coalesceOperations', () => {
+  let counter = 0;
+  const operation = (
+    type: NexusOperation<Note>['type'],
+    itemId: string,
+    title?: string
+  ): NexusOperation<Note> => ({
+    ...baseOperation,
+    id: `op${counter++}`,
+    type,
+    itemId,
+    payload: title === undefined ? undefined : { id: itemId, title },
+  });
+
+  it('drops records created and deleted before being pushed', () => {
+    expect(
+      coalesceOperations([
+        operation('CREATE', '1', 'a'),
+        operation('UPDATE', '1', 'b'),
+        operation('UPDATE', '1', 'c'),
+        operation('DELETE', '1'),
+      ])
+    ).toEqual([]);
+  });
+
+  it('folds updates into the create or the last update', () => {
+    const result = coalesceOperations([
+      operation('CREATE', '1', 'a'),
+      operation('UPDATE', '2', 'x'),
+      operation('UPDATE', '1', 'b'),
+      operation('UPDATE', '2', 'y'),
+      operation('UPDATE', '3', 'z'),
+      operation('DELETE', '3'),
+    ]);
+
+    expect(result.map((op) => [op.type, op.itemId, op.payload?.title])).toEqual(
+      [
+        ['CREATE', '1', 'b'],
+        ['UPDATE', '2', 'y'],
+        ['DELETE', '3', undefined],
+      ]
+    );
+  });
+
+  it('keeps edited creates ahead of the records created after them', () => {
+    const result = coalesceOperations([
+      operation('CREATE', 'A', 'parent'),
+      operation('CREATE', 'B', 'child of A'),
+      operation('UPDATE', 'A', 'renamed parent'),
+    ]);
+
+    expect(result.map((op) => [op.type, op.itemId, op.payload?.title])).toEqual(
+      [
+        ['CREATE', 'A', 'renamed parent'],
+        ['CREATE', 'B', 'child of A'],
+      ]
+    );
+  });
+});
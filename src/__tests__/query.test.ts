@@ -0,0 +1,110 @@
+import { NexusSyncEngine } from '../engine';
+import { NexusCollectionIndex, runQuery } from '../query';
+import { MemoryStorageAdapter } from '../storage';
+
+type Task = { id: string; status: string; priority?: number; tags?: string[] };
+
+const tasks: Task[] = [
+  { id: '1', status: 'open', priority: 2 },
+  { id: '2', status: 'done', priority: 1 },
+  { id: '3', status: 'open' },
+  { id: '4', status: 'open', priority: 3, tags: ['home'] },
+  { id: '5', status: 'late', priority: 1 },
+];
+
+const ids = (items: Task[]) => items.map(({ id }) => id);
+
+describe('runQuery', () => {
+  it('filters with values and operators', () => {
+    expect(ids(runQuery(tasks, { where: { status: 'open' } }).items)).toEqual([
+      '1',
+      '3',
+      '4',
+    ]);
+    expect(
+      ids(
+        runQuery(tasks, {
+          where: { status: { in: ['open', 'late'] }, priority: { gte: 2 } },
+        }).items
+      )
+    ).toEqual(['1', '4']);
+    expect(ids(runQuery(tasks, { where: { tags: ['home'] } }).items)).toEqual([
+      '4',
+    ]);
+    expect(
+      ids(runQuery(tasks, { where: (task) => task.id > '3' }).items)
+    ).toEqual(['4', '5']);
+  });
+
+  it('sorts on several attributes, missing values last, and pages', () => {
+    const result = runQuery(tasks, {
+      orderBy: [{ attribute: 'priority', direction: 'DESC' }, 'status'],
+      offset: 1,
+      limit: 3,
+    });
+
+    expect(ids(result.items)).toEqual(['1', '2', '5']);
+    expect(result.total).toBe(5);
+    expect(
+      ids(runQuery(tasks, { orderBy: 'priority' }).items).slice(-1)
+    ).toEqual(['3']);
+  });
+
+  it('looks indexed attributes up to the same result as a scan', () => {
+    const index = new NexusCollectionIndex(tasks, ['status', 'priority']);
+    const queries = [
+      { where: { status: 'open', priority: { lt: 3 } } },
+      { where: { priority: { in: [1, 3] } }, orderBy: 'id' as const },
+      { where: { status: { eq: 'missing' } } },
+    ];
+
+    queries.forEach((query) => {
+      expect(runQuery(tasks, query, index)).toEqual(runQuery(tasks, query));
+    });
+    expect(index.lookup({ priority: { in: [3, 1] } })).toEqual([1, 3, 4]);
+    expect(index.lookup({ id: '1' })).toBeUndefined();
+  });
+
+  it('updates the index as items are edited, added and removed', () => {
+    const index = new NexusCollectionIndex(tasks, ['status']);
+    const edited = tasks.map((task) =>
+      task.id === '2' ? { ...task, status: 'open' } : task
+    );
+    const versions = [
+      edited,
+      [...edited, { id: '6', status: 'done' }],
+      edited.filter(({ id }) => id !== '1'),
+    ];
+
+    versions.forEach((data) => {
+      index.update(data);
+      ['open', 'done', 'late'].forEach((status) => {
+        const query = { where: { status } };
+        expect(runQuery(data, query, index)).toEqual(runQuery(data, query));
+      });
+    });
+    expect(index.lookup({ status: 'open' })).toEqual([0, 1, 2]);
+  });
+});
+
+describe('NexusSyncEngine.query', () => {
+  it('runs against the current data with the declared indexes', async () => {
+    const engine = new NexusSyncEngine<Task>({
+      async_DATA_KEY: 'TASKS',
+      storage: new MemoryStorageAdapter(),
+      idAttributeName: 'id',
+      indexes: ['status'],
+    });
+    await engine.replaceData(tasks);
+    expect(engine.query({ where: { status: 'late' } }).items).toEqual([
+      tasks[4],
+    ]);
+
+    await engine.replaceData([...tasks, { id: '6', status: 'late' }]);
+    expect(ids(engine.query({ where: { status: 'late' } }).items)).toEqual([
+      '5',
+      '6',
+    ]);
+    expect(engine.query().total).toBe(6);
+  });
+});
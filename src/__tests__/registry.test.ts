@@ -0,0 +1,165 @@
+import { publishIdRemap } from '../idMap';
+import { NexusSyncRegistry } from '../registry';
+import { MemoryStorageAdapter } from '../storage';
+
+type Note = { id: string; title: string; modificationDate: string };
+
+const options = (storage = new MemoryStorageAdapter()) => ({
+  async_DATA_KEY: 'NOTES',
+  storage,
+  idAttributeName: 'id' as const,
+  modificationDateAttributeName: 'modificationDate' as const,
+});
+
+describe('NexusSyncRegistry', () => {
+  it('shares one engine per collection until it is released', () => {
+    const registry = new NexusSyncRegistry();
+    const engine = registry.getEngine<Note>(options());
+    const releaseFirst = registry.retain(engine);
+    const releaseSecond = registry.retain(registry.getEngine(options()));
+
+    expect(registry.getEngine(options())).toBe(engine);
+    releaseFirst();
+    expect(registry.getEngine(options())).toBe(engine);
+    releaseSecond();
+    expect(registry.getEngine(options())).not.toBe(engine);
+  });
+
+  it('follows id remaps again once a released engine is retained', async () => {
+    type Task = Note & { projectId: string };
+    const registry = new NexusSyncRegistry();
+    const storage = new MemoryStorageAdapter();
+    const projects = registry.getEngine<Note>({
+      ...options(storage),
+      async_DATA_KEY: 'PROJECTS',
+      syncRemoteData: true,
+      remoteMethods: {
+        GET: async () => [],
+        CREATE: async (project) => ({ ...project, id: 'P1' }),
+      },
+    });
+    const tasks = registry.getEngine<Task>({
+      ...options(storage),
+      async_DATA_KEY: 'TASKS',
+      foreignKeys: { projectId: 'PROJECTS' },
+    });
+    await Promise.all([projects.loadLocalData(), tasks.loadLocalData()]);
+    const releaseProjects = registry.retain(projects);
+    // Unmounted and mounted again, as StrictMode does
+    registry.retain(tasks)();
+    const releaseTasks = registry.retain(tasks);
+
+    const project = await projects.saveItem({
+      id: '',
+      title: 'Home',
+      modificationDate: '',
+    });
+    await tasks.saveItem({
+      id: '',
+      projectId: project.id,
+      title: 'Paint',
+      modificationDate: '',
+    });
+    await projects.sync();
+
+    expect(tasks.getState().data[0]?.projectId).toBe('P1');
+    releaseProjects();
+    releaseTasks();
+  });
+
+  it('leaves engines never retained out of id remaps', async () => {
+    type Task = Note & { projectId: string };
+    const registry = new NexusSyncRegistry();
+    const task = {
+      id: '1',
+      title: '',
+      modificationDate: '',
+      projectId: 'tmp-a',
+    };
+    // Created by a render React threw away
+    const tasks = registry.getEngine<Task>({
+      ...options(),
+      async_DATA_KEY: 'TASKS',
+      foreignKeys: { projectId: 'PROJECTS' },
+    });
+    await tasks.replaceData([task]);
+
+    // Applied right away by the engines following remaps
+    publishIdRemap('PROJECTS', 'tmp-a', 'P1');
+
+    expect(tasks.getState().data).toEqual([task]);
+  });
+
+  it('watches the network once for every engine', () => {
+    let notify: (isOnline: boolean) => void = () => undefined;
+    const stopWatching = jest.fn();
+    const subscribe = jest.fn((listener) => {
+      notify = listener;
+      return stopWatching;
+    });
+    const registry = new NexusSyncRegistry({ subscribe });
+
+    const notes = registry.getEngine<Note>(options());
+    const tasks = registry.getEngine<Note>({
+      ...options(),
+      async_DATA_KEY: 'TASKS',
+    });
+    const releaseNotes = registry.retain(notes);
+    const releaseTasks = registry.retain(tasks);
+    notify(true);
+
+    expect(subscribe).toHaveBeenCalledTimes(1);
+    expect(notes.getState().isOnline).toBe(true);
+    expect(tasks.getState().isOnline).toBe(true);
+
+    releaseNotes();
+    releaseTasks();
+    expect(stopWatching).toHaveBeenCalledTimes(1);
+  });
+
+  it('deletes the stored data and pending changes of every collection', async () => {
+    const registry = new NexusSyncRegistry();
+    const storage = new MemoryStorageAdapter();
+    const engines = ['NOTES', 'TASKS'].map((async_DATA_KEY) =>
+      registry.getEngine<Note>({ ...options(storage), async_DATA_KEY })
+    );
+    const releases = engines.map((engine) => registry.retain(engine));
+    for (const engine of engines) {
+      engine.setOnline(false);
+      await engine.loadLocalData();
+      await engine.saveItem({ id: '', title: 'draft', modificationDate: '' });
+    }
+
+    await registry.clearAll();
+
+    for (const async_DATA_KEY of ['NOTES', 'TASKS']) {
+      const reopened = new NexusSyncRegistry().getEngine<Note>({
+        ...options(storage),
+        async_DATA_KEY,
+      });
+      await reopened.initialize();
+      await reopened.loadLocalData();
+      expect(reopened.getState().data).toEqual([]);
+      expect(reopened.getState().numberOfChangesPending).toBe(0);
+      reopened.dispose();
+    }
+    releases.forEach((release) => release());
+  });
+
+  it('runs one sync at a time for a collection', async () => {
+    const registry = new NexusSyncRegistry();
+    const GET = jest.fn(async () => [
+      { id: '1', title: 'one', modificationDate: '' },
+    ]);
+    const first = registry.getEngine<Note>({
+      ...options(),
+      remoteMethods: { GET },
+    });
+    const second = registry.getEngine<Note>(options());
+
+    await Promise.all([first.sync(), second.sync()]);
+
+    expect(GET).toHaveBeenCalledTimes(1);
+    expect(second.getState().data).toHaveLength(1);
+  });
+});
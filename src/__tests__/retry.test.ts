@@ -0,0 +1,16 @@
+import { DEFAULT_RETRY_POLICY, getRetryDelay } from '../retry';
+
+describe('getRetryDelay', () => {
+  const policy = { ...DEFAULT_RETRY_POLICY, baseDelay: 100, maxDelay: 1000 };
+
+  it('doubles the delay on every attempt up to maxDelay', () => {
+    const noJitter = () => 0;
+    expect(
+      [1, 2, 3, 4, 5].map((attempt) => getRetryDelay(attempt, policy, noJitter))
+    ).toEqual([100, 200, 400, 800, 1000]);
+  });
+
+  it('randomizes part of the delay', () => {
+    expect(getRetryDelay(2, { ...policy, jitter: 0.5 }, () => 1)).toBe(100);
+  });
+});
@@ -0,0 +1,99 @@
+import { NexusSyncEngine } from '../engine';
+import type { NexusSyncScope } from '../scope';
+import { MemoryStorageAdapter } from '../storage';
+import type { NexusRemoteMethods } from '../types';
+
+type Task = {
+  id: string;
+  projectId: string;
+  title: string;
+  modificationDate: string;
+};
+
+const task = (id: string, projectId: string): Task => ({
+  id,
+  projectId,
+  title: id,
+  modificationDate: '2024-01-01T00:00:00.000Z',
+});
+
+const createEngine = (
+  storage: MemoryStorageAdapter,
+  remoteMethods: NexusRemoteMethods<Task>,
+  scope: NexusSyncScope
+) =>
+  new NexusSyncEngine<Task>({
+    async_DATA_KEY: 'TASKS',
+    storage,
+    idAttributeName: 'id',
+    modificationDateAttributeName: 'modificationDate',
+    remoteMethods,
+    scope,
+  });
+
+describe('scoped sync', () => {
+  it('only replaces the local items inside the scope', async () => {
+    const storage = new MemoryStorageAdapter({
+      TASKS: JSON.stringify([task('1', 'a'), task('2', 'b')]),
+    });
+    const GET = jest.fn(async () => [task('3', 'a')]);
+    const engine = createEngine(storage, { GET }, { projectId: 'a' });
+    await engine.loadLocalData();
+
+    await engine.sync();
+
+    expect(GET).toHaveBeenCalledWith(expect.any(AbortSignal), {
+      projectId: 'a',
+    });
+    expect(engine.getState().data.map(({ id }) => id)).toEqual(['2', '3']);
+  });
+
+  it('does not take items outside the scope as deleted remotely', async () => {
+    const storage = new MemoryStorageAdapter({
+      TASKS: JSON.stringify([task('1', 'a'), task('2', 'b')]),
+    });
+    const engine = createEngine(
+      storage,
+      { GET: async () => [] },
+      { projectId: 'a' }
+    );
+    await engine.loadLocalData();
+    await engine.updateItem({ ...task('1', 'a'), title: 'edited' });
+    await engine.updateItem({ ...task('2', 'b'), title: 'edited' });
+
+    await engine.sync();
+
+    expect(
+      engine
+        .getState()
+        .pendingConflicts.map(({ type, itemId }) => [type, itemId])
+    ).toEqual([['DELETED_REMOTELY', '1']]);
+    expect(engine.getState().data.map(({ id }) => id)).toContain('2');
+  });
+
+  it('forgets the cursor of another scope', async () => {
+    const storage = new MemoryStorageAdapter();
+    const GET_CHANGES = jest.fn<
+      ReturnType<NonNullable<NexusRemoteMethods<Task>['GET_CHANGES']>>,
+      Parameters<NonNullable<NexusRemoteMethods<Task>['GET_CHANGES']>>
+    >(async () => ({
+      changed: [],
+      deleted: [],
+      cursor: 'c1',
+    }));
+    const engine = createEngine(storage, { GET_CHANGES }, { projectId: 'a' });
+
+    await engine.sync();
+    await engine.sync();
+    engine.setOptions({ scope: { projectId: 'b' } });
+    await engine.sync();
+
+    expect(
+      GET_CHANGES.mock.calls.map(([cursor, , scope]) => [cursor, scope])
+    ).toEqual([
+      [null, { projectId: 'a' }],
+      ['c1', { projectId: 'a' }],
+      [null, { projectId: 'b' }],
+    ]);
+  });
+});
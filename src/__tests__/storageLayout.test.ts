@@ -0,0 +1,112 @@
+import { NexusSyncEngine } from '../engine';
+import type { NexusStorageLayout } from '../recordLayout';
+import { MemoryStorageAdapter } from '../storage';
+
+type Note = { id: string; title: string };
+
+const createEngine = (
+  storage: MemoryStorageAdapter,
+  storageLayout: NexusStorageLayout = 'RECORDS'
+) =>
+  new NexusSyncEngine<Note>({
+    async_DATA_KEY: 'NOTES',
+    storage,
+    idAttributeName: 'id',
+    storageLayout,
+    writeDelay: 5,
+    loadChunkSize: 2,
+  });
+
+const one = { id: '1', title: 'one' };
+const two = { id: '2', title: 'two' };
+
+describe('records storage layout', () => {
+  it('stores each record under its own key along an index', async () => {
+    const storage = new MemoryStorageAdapter();
+    const engine = createEngine(storage);
+    await engine.loadLocalData();
+    await engine.replaceData([one, two]);
+
+    expect(JSON.parse((await storage.getItem('NOTES_index'))!)).toEqual({
+      version: 0,
+      ids: ['1', '2'],
+    });
+    expect(JSON.parse((await storage.getItem('NOTES_record_2'))!)).toEqual(two);
+    expect(await storage.getItem('NOTES')).toBeNull();
+    expect(await createEngine(storage).loadLocalData()).toEqual([one, two]);
+  });
+
+  it('debounces writes and only writes the records that changed', async () => {
+    const storage = new MemoryStorageAdapter();
+    const engine = createEngine(storage);
+    await engine.loadLocalData();
+    await engine.replaceData([one, two]);
+    const setItem = jest.spyOn(storage, 'setItem');
+    const removeItem = jest.spyOn(storage, 'removeItem');
+
+    engine.replaceData([one, { ...two, title: 'a' }]);
+    engine.replaceData([one, { ...two, title: 'ab' }]);
+    await engine.replaceData([one, { ...two, title: 'abc' }]);
+
+    const recordWrites = setItem.mock.calls.filter(([key]) =>
+      key.startsWith('NOTES_record_')
+    );
+    expect(recordWrites).toEqual([
+      ['NOTES_record_2', JSON.stringify({ ...two, title: 'abc' })],
+    ]);
+    expect(setItem.mock.calls.some(([key]) => key === 'NOTES_index')).toBe(
+      false
+    );
+
+    await engine.replaceData([two]);
+    expect(removeItem).toHaveBeenCalledWith('NOTES_record_1');
+    expect(JSON.parse((await storage.getItem('NOTES_index'))!).ids).toEqual([
+      '2',
+    ]);
+  });
+
+  it('reads records in chunks, in the order of the index', async () => {
+    const ids = ['5', '3', '1', '4', '2'];
+    const storage = new MemoryStorageAdapter({
+      NOTES_index: JSON.stringify({ version: 0, ids }),
+    });
+    for (const id of ids) {
+      await storage.setItem(
+        `NOTES_record_${id}`,
+        JSON.stringify({ id, title: id })
+      );
+    }
+    let reading = 0;
+    let maxReading = 0;
+    const getItem = storage.getItem.bind(storage);
+    jest.spyOn(storage, 'getItem').mockImplementation(async (key) => {
+      reading++;
+      maxReading = Math.max(maxReading, reading);
+      const value = await getItem(key);
+      reading--;
+      return value;
+    });
+
+    const data = await createEngine(storage).loadLocalData();
+
+    expect(data.map(({ id }) => id)).toEqual(ids);
+    expect(maxReading).toBe(2);
+  });
+
+  it('converts collections stored with the other layout', async () => {
+    const storage = new MemoryStorageAdapter({
+      NOTES: JSON.stringify({ version: 0, items: [one, two] }),
+    });
+
+    expect(await createEngine(storage).loadLocalData()).toEqual([one, two]);
+    expect(await storage.getItem('NOTES')).toBeNull();
+    expect(await storage.getItem('NOTES_record_1')).toBe(JSON.stringify(one));
+
+    expect(await createEngine(storage, 'COLLECTION').loadLocalData()).toEqual([
+      one,
+      two,
+    ]);
+    expect(await storage.getItem('NOTES_index')).toBeNull();
+    expect(await storage.getItem('NOTES_record_1')).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+import React from 'react';
+import { act, create, type ReactTestRenderer } from 'react-test-renderer';
+import { NexusSyncProvider } from '../NexusSyncProvider';
+import type { NexusQueryResult } from '../query';
+import { NexusSyncRegistry } from '../registry';
+import { MemoryStorageAdapter } from '../storage';
+import useNexusQuery from '../useNexusQuery';
+
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock.js')
+);
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+type Task = { id: string; title: string; done: boolean };
+
+const tasks: Task[] = [
+  { id: '1', title: 'Paint', done: false },
+  { id: '2', title: 'Clean', done: true },
+];
+
+describe('useNexusQuery', () => {
+  it('waits for the collection and runs again when it changes', async () => {
+    const registry = new NexusSyncRegistry();
+    const results: NexusQueryResult<Task>[] = [];
+    const OpenTasks = () => {
+      results.push(useNexusQuery<Task>('TASKS', { where: { done: false } }));
+      return null;
+    };
+
+    let renderer: ReactTestRenderer | undefined;
+    await act(async () => {
+      renderer = create(
+        <NexusSyncProvider registry={registry}>
+          <OpenTasks />
+        </NexusSyncProvider>
+      );
+    });
+    expect(registry.findEngine('TASKS')).toBeUndefined();
+    expect(results[results.length - 1]).toEqual({ items: [], total: 0 });
+
+    // As useNexusSync does
+    const engine = registry.getEngine<Task>({
+      async_DATA_KEY: 'TASKS',
+      storage: new MemoryStorageAdapter(),
+      idAttributeName: 'id',
+    });
+    expect(registry.findEngine('TASKS')).toBeUndefined();
+    let release = () => {};
+    await act(async () => {
+      release = registry.retain(engine);
+      await engine.replaceData(tasks);
+    });
+    expect(results[results.length - 1]?.items).toEqual([tasks[0]]);
+
+    await act(() =>
+      engine.replaceData([...tasks, { id: '3', title: 'Cook', done: false }])
+    );
+    expect(results[results.length - 1]?.total).toBe(2);
+
+    act(() => renderer?.unmount());
+    release();
+  });
+});
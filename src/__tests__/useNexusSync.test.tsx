@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { act, create, type ReactTestRenderer } from 'react-test-renderer';
+import { NexusSyncProvider } from '../NexusSyncProvider';
+import { NexusSyncRegistry } from '../registry';
+import { MemoryStorageAdapter } from '../storage';
+import useNexusSync from '../useNexusSync';
+
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock.js')
+);
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+type Note = { id: string; title: string; modificationDate: string };
+
+describe('useNexusSync', () => {
+  it('publishes a collection loaded before it mounts', async () => {
+    const registry = new NexusSyncRegistry();
+    const storage = new MemoryStorageAdapter();
+    const notes: Note[] = [{ id: '1', title: 'one', modificationDate: '' }];
+    const engine = registry.getEngine<Note>({
+      async_DATA_KEY: 'NOTES',
+      storage,
+      idAttributeName: 'id',
+    });
+    const release = registry.retain(engine);
+    await engine.initialize();
+    await engine.replaceData(notes);
+
+    let shown: Note[] = [];
+    const Notes = () => {
+      const [data, setData] = useState<Note[]>([]);
+      // Reloads nothing while the network status is unknown
+      useNexusSync<Note>({
+        async_DATA_KEY: 'NOTES',
+        storage,
+        data,
+        setData,
+        loadFirstRemote: true,
+        remoteMethods: { GET: async () => notes },
+      });
+      shown = data;
+      return null;
+    };
+    let renderer: ReactTestRenderer | undefined;
+    await act(async () => {
+      renderer = create(
+        <NexusSyncProvider registry={registry}>
+          <Notes />
+        </NexusSyncProvider>
+      );
+    });
+
+    expect(shown).toEqual(notes);
+    expect(engine.getState().data).toEqual(notes);
+
+    act(() => renderer?.unmount());
+    release();
+  });
+});
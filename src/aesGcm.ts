@@ -0,0 +1,296 @@
+/* eslint-disable no-bitwise */
+/**
+ * Pure JavaScript AES-GCM, for engines without WebCrypto such as Hermes.
+ * Only the forward cipher is needed: GCM decrypts with the same keystream.
+ */
+
+const SBOX = new Uint8Array(256);
+
+const xtime = (a: number) => ((a << 1) ^ (a & 0x80 ? 0x1b : 0)) & 0xff;
+
+const rotl8 = (x: number, shift: number) =>
+  ((x << shift) | (x >>> (8 - shift))) & 0xff;
+
+// Builds the S-box from the multiplicative inverses in GF(2^8)
+(() => {
+  let p = 1;
+  let q = 1;
+  do {
+    p = (p ^ xtime(p)) & 0xff;
+    q ^= q << 1;
+    q ^= q << 2;
+    q ^= q << 4;
+    q &= 0xff;
+    if (q & 0x80) {
+      q ^= 0x09;
+    }
+    SBOX[p] =
+      (q ^ rotl8(q, 1) ^ rotl8(q, 2) ^ rotl8(q, 3) ^ rotl8(q, 4) ^ 0x63) & 0xff;
+  } while (p !== 1);
+  SBOX[0] = 0x63;
+})();
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+interface AesKey {
+  roundKeys: Uint8Array;
+  rounds: number;
+}
+
+function expandKey(key: Uint8Array): AesKey {
+  if (key.length !== 16 && key.length !== 24 && key.length !== 32) {
+    throw new Error('AES keys are 128, 192 or 256 bits long');
+  }
+
+  const keyWords = key.length / 4;
+  const rounds = keyWords + 6;
+  const roundKeys = new Uint8Array(16 * (rounds + 1));
+  roundKeys.set(key);
+  let rcon = 1;
+  for (let i = keyWords; i < 4 * (rounds + 1); i++) {
+    let t0 = roundKeys[4 * i - 4]!;
+    let t1 = roundKeys[4 * i - 3]!;
+    let t2 = roundKeys[4 * i - 2]!;
+    let t3 = roundKeys[4 * i - 1]!;
+    if (i % keyWords === 0) {
+      const first = t0;
+      t0 = SBOX[t1]! ^ rcon;
+      t1 = SBOX[t2]!;
+      t2 = SBOX[t3]!;
+      t3 = SBOX[first]!;
+      rcon = xtime(rcon);
+    } else if (keyWords > 6 && i % keyWords === 4) {
+      t0 = SBOX[t0]!;
+      t1 = SBOX[t1]!;
+      t2 = SBOX[t2]!;
+      t3 = SBOX[t3]!;
+    }
+    const previous = 4 * (i - keyWords);
+    roundKeys[4 * i] = roundKeys[previous]! ^ t0;
+    roundKeys[4 * i + 1] = roundKeys[previous + 1]! ^ t1;
+    roundKeys[4 * i + 2] = roundKeys[previous + 2]! ^ t2;
+    roundKeys[4 * i + 3] = roundKeys[previous + 3]! ^ t3;
+  }
+  return { roundKeys, rounds };
+}
+
+// Scratch of ShiftRows. The cipher is synchronous, so it can be shared
+const shifted = new Uint8Array(16);
+
+/** Encrypts `block` into `output`, which may be the same buffer. */
+function encryptBlock(
+  { roundKeys, rounds }: AesKey,
+  block: Uint8Array,
+  output: Uint8Array
+): void {
+  const state = output;
+  for (let i = 0; i < 16; i++) {
+    state[i] = block[i]! ^ roundKeys[i]!;
+  }
+
+  for (let round = 1; round <= rounds; round++) {
+    // SubBytes and ShiftRows, bytes are stored column by column
+    for (let column = 0; column < 4; column++) {
+      for (let row = 0; row < 4; row++) {
+        shifted[row + 4 * column] =
+          SBOX[state[row + 4 * ((column + row) % 4)]!]!;
+      }
+    }
+    state.set(shifted);
+
+    if (round < rounds) {
+      for (let column = 0; column < 4; column++) {
+        const a0 = state[4 * column]!;
+        const a1 = state[4 * column + 1]!;
+        const a2 = state[4 * column + 2]!;
+        const a3 = state[4 * column + 3]!;
+        state[4 * column] = xtime(a0) ^ xtime(a1) ^ a1 ^ a2 ^ a3;
+        state[4 * column + 1] = a0 ^ xtime(a1) ^ xtime(a2) ^ a2 ^ a3;
+        state[4 * column + 2] = a0 ^ a1 ^ xtime(a2) ^ xtime(a3) ^ a3;
+        state[4 * column + 3] = xtime(a0) ^ a0 ^ a1 ^ a2 ^ xtime(a3);
+      }
+    }
+
+    for (let i = 0; i < 16; i++) {
+      state[i] = state[i]! ^ roundKeys[16 * round + i]!;
+    }
+  }
+}
+
+// Reduction of the 4 bits shifted out of a block, in its top 16 bits
+const LAST4 = [
+  0x0000, 0x1c20, 0x3840, 0x2460, 0x7080, 0x6ca0, 0x48c0, 0x54e0, 0xe100,
+  0xfd20, 0xd940, 0xc560, 0x9180, 0x8da0, 0xa9c0, 0xb5e0,
+];
+
+/**
+ * Products of the hash key by the 16 values of 4 bits, each as 4 words, most
+ * significant first. GHASH then multiplies 4 bits at a time.
+ */
+function getHashTable(hashKey: Uint8Array): Uint32Array {
+  const table = new Uint32Array(64);
+  const view = new DataView(hashKey.buffer, hashKey.byteOffset, 16);
+  let v0 = view.getUint32(0);
+  let v1 = view.getUint32(4);
+  let v2 = view.getUint32(8);
+  let v3 = view.getUint32(12);
+  table.set([v0, v1, v2, v3], 32);
+  for (let i = 4; i > 0; i >>= 1) {
+    // Times x, in the bit order of GCM
+    const reduction = v3 & 1 ? 0xe1000000 : 0;
+    v3 = (v3 >>> 1) | (v2 << 31);
+    v2 = (v2 >>> 1) | (v1 << 31);
+    v1 = (v1 >>> 1) | (v0 << 31);
+    v0 = (v0 >>> 1) ^ reduction;
+    table.set([v0, v1, v2, v3], 4 * i);
+  }
+  for (let i = 2; i <= 8; i *= 2) {
+    for (let j = 1; j < i; j++) {
+      for (let k = 0; k < 4; k++) {
+        table[4 * (i + j) + k] = table[4 * i + k]! ^ table[4 * j + k]!;
+      }
+    }
+  }
+  return table;
+}
+
+/** Multiplies `x`, 4 words, by the hash key of `table`, in place. */
+function multiplyByHashKey(table: Uint32Array, x: Uint32Array): void {
+  let z0 = 0;
+  let z1 = 0;
+  let z2 = 0;
+  let z3 = 0;
+  for (let i = 15; i >= 0; i--) {
+    const byte = (x[i >> 2]! >>> (24 - 8 * (i & 3))) & 0xff;
+    // Low 4 bits first, then the high ones
+    for (let nibble = byte & 0xf, half = 0; half < 2; half++) {
+      if (i !== 15 || half !== 0) {
+        const remainder = z3 & 0xf;
+        z3 = (z3 >>> 4) | (z2 << 28);
+        z2 = (z2 >>> 4) | (z1 << 28);
+        z1 = (z1 >>> 4) | (z0 << 28);
+        z0 = (z0 >>> 4) ^ (LAST4[remainder]! << 16);
+      }
+      z0 ^= table[4 * nibble]!;
+      z1 ^= table[4 * nibble + 1]!;
+      z2 ^= table[4 * nibble + 2]!;
+      z3 ^= table[4 * nibble + 3]!;
+      nibble = byte >>> 4;
+    }
+  }
+  x[0] = z0;
+  x[1] = z1;
+  x[2] = z2;
+  x[3] = z3;
+}
+
+function ghash(hashKey: Uint8Array, aad: Uint8Array, data: Uint8Array) {
+  const table = getHashTable(hashKey);
+  const tag = new Uint32Array(4);
+  const absorb = (bytes: Uint8Array) => {
+    for (let offset = 0; offset < bytes.length; offset += 16) {
+      // Partial blocks are padded with zeros
+      for (let j = 0; j < 16 && offset + j < bytes.length; j++) {
+        tag[j >> 2] = tag[j >> 2]! ^ (bytes[offset + j]! << (24 - 8 * (j & 3)));
+      }
+      multiplyByHashKey(table, tag);
+    }
+  };
+
+  absorb(aad);
+  absorb(data);
+  tag[0] = tag[0]! ^ Math.floor((aad.length * 8) / 0x100000000);
+  tag[1] = tag[1]! ^ ((aad.length * 8) >>> 0);
+  tag[2] = tag[2]! ^ Math.floor((data.length * 8) / 0x100000000);
+  tag[3] = tag[3]! ^ ((data.length * 8) >>> 0);
+  multiplyByHashKey(table, tag);
+
+  const hash = new Uint8Array(16);
+  const view = new DataView(hash.buffer);
+  tag.forEach((word, i) => view.setUint32(4 * i, word));
+  return hash;
+}
+
+/** XORs `data` with the keystream starting at the counter after `j0`. */
+function ctr(key: AesKey, j0: Uint8Array, data: Uint8Array): Uint8Array {
+  const output = new Uint8Array(data.length);
+  const counter = new Uint8Array(j0);
+  const view = new DataView(counter.buffer);
+  const keystream = new Uint8Array(16);
+  for (let offset = 0; offset < data.length; offset += 16) {
+    view.setUint32(12, (view.getUint32(12) + 1) >>> 0);
+    encryptBlock(key, counter, keystream);
+    for (let j = 0; j < 16 && offset + j < data.length; j++) {
+      output[offset + j] = data[offset + j]! ^ keystream[j]!;
+    }
+  }
+  return output;
+}
+
+function getJ0(iv: Uint8Array): Uint8Array {
+  const j0 = new Uint8Array(16);
+  j0.set(iv);
+  j0[15] = 1;
+  return j0;
+}
+
+function getTag(
+  key: AesKey,
+  j0: Uint8Array,
+  aad: Uint8Array,
+  ciphertext: Uint8Array
+): Uint8Array {
+  const hashKey = new Uint8Array(16);
+  encryptBlock(key, hashKey, hashKey);
+  const hash = ghash(hashKey, aad, ciphertext);
+  const mask = new Uint8Array(16);
+  encryptBlock(key, j0, mask);
+  return hash.map((byte, i) => byte ^ mask[i]!);
+}
+
+/** Returns the 12 bytes IV, the ciphertext and the 16 bytes tag, joined. */
+export function aesGcmEncrypt(
+  keyBytes: Uint8Array,
+  iv: Uint8Array,
+  plaintext: Uint8Array,
+  aad: Uint8Array = new Uint8Array(0)
+): Uint8Array {
+  if (iv.length !== IV_LENGTH) {
+    throw new Error('AES-GCM IVs are 12 bytes long');
+  }
+  const key = expandKey(keyBytes);
+  const j0 = getJ0(iv);
+  const ciphertext = ctr(key, j0, plaintext);
+
+  const sealed = new Uint8Array(IV_LENGTH + ciphertext.length + TAG_LENGTH);
+  sealed.set(iv);
+  sealed.set(ciphertext, IV_LENGTH);
+  sealed.set(getTag(key, j0, aad, ciphertext), IV_LENGTH + ciphertext.length);
+  return sealed;
+}
+
+/** Opens what `aesGcmEncrypt` sealed. Throws when it was tampered with. */
+export function aesGcmDecrypt(
+  keyBytes: Uint8Array,
+  sealed: Uint8Array,
+  aad: Uint8Array = new Uint8Array(0)
+): Uint8Array {
+  if (sealed.length < IV_LENGTH + TAG_LENGTH) {
+    throw new Error('AES-GCM payload is too short');
+  }
+  const key = expandKey(keyBytes);
+  const j0 = getJ0(sealed.subarray(0, IV_LENGTH));
+  const ciphertext = sealed.subarray(IV_LENGTH, sealed.length - TAG_LENGTH);
+  const tag = sealed.subarray(sealed.length - TAG_LENGTH);
+
+  const expectedTag = getTag(key, j0, aad, ciphertext);
+  let difference = 0;
+  for (let i = 0; i < TAG_LENGTH; i++) {
+    difference |= expectedTag[i]! ^ tag[i]!;
+  }
+  if (difference !== 0) {
+    throw new Error('AES-GCM authentication failed');
+  }
+  return ctr(key, j0, ciphertext);
+}
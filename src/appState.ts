@@ -0,0 +1,9 @@
+export type NexusAppStateListener = (isActive: boolean) => void;
+
+/**
+ * Source of the foreground status of the app. The listener is called on
+ * every change.
+ */
+export interface NexusAppStateProvider {
+  subscribe(listener: NexusAppStateListener): () => void;
+}
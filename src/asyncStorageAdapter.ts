@@ -0,0 +1,12 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { NexusStorageAdapter } from './storage';
+
+/**
+ * Default adapter. Kept apart from `storage.ts` so the in-memory adapter can
+ * be used where the native module is not available.
+ */
+export const asyncStorageAdapter: NexusStorageAdapter = {
+  getItem: (key) => AsyncStorage.getItem(key),
+  setItem: (key, value) => AsyncStorage.setItem(key, value),
+  removeItem: (key) => AsyncStorage.removeItem(key),
+};
@@ -0,0 +1,63 @@
+import { defaultNexusSyncRegistry } from './NexusSyncProvider';
+import { asyncStorageAdapter } from './asyncStorageAdapter';
+import type { NexusEncryptionOptions } from './encryption';
+import type { NexusSyncEngineMutableOptions } from './engine';
+import type { NexusSyncRegistry } from './registry';
+import {
+  getRegisteredCollectionKeys,
+  type NexusStorageAdapter,
+} from './storage';
+
+export interface NexusBackgroundSyncOptions {
+  // Options of each collection, as given to useNexusSync
+  collections: Record<string, NexusSyncEngineMutableOptions<any>>;
+  storage?: NexusStorageAdapter; // AsyncStorage by default
+  registry?: NexusSyncRegistry; // defaultNexusSyncRegistry by default
+  pull?: boolean; // Also fetch the remote changes, only pushes by default
+  encryption?: NexusEncryptionOptions; // As given to useNexusSync
+}
+
+/**
+ * Pushes the pending changes of collections registered in `NEXUSSYNC_KEYS`,
+ * with no component mounted, as from a headless or background fetch task.
+ * Every registered collection with options is synced when `keys` is not
+ * given. Collections mounted meanwhile share their engine. Resolves with the
+ * number of changes still pending in each collection synced.
+ */
+export async function runBackgroundSync(
+  keys: string[] | undefined,
+  {
+    collections,
+    storage = asyncStorageAdapter,
+    registry = defaultNexusSyncRegistry,
+    pull = false,
+    encryption,
+  }: NexusBackgroundSyncOptions
+): Promise<Record<string, number>> {
+  const registeredKeys = await getRegisteredCollectionKeys(storage);
+  const syncedKeys = registeredKeys.filter(
+    (key) =>
+      collections[key] !== undefined &&
+      (keys === undefined || keys.includes(key))
+  );
+
+  const pending: Record<string, number> = {};
+  await Promise.all(
+    syncedKeys.map(async (key) => {
+      const engine = registry.getEngine<any>({
+        async_DATA_KEY: key,
+        storage,
+        encryption,
+      });
+      engine.setOptions({ syncRemoteData: true, ...collections[key] });
+      const release = registry.retain(engine);
+      try {
+        await (pull ? engine.sync() : engine.flush());
+        pending[key] = engine.getState().numberOfChangesPending ?? 0;
+      } finally {
+        release();
+      }
+    })
+  );
+  return pending;
+}
@@ -0,0 +1,137 @@
+import type { NexusGenericPrimaryType } from './types';
+import { compareVersions, type NexusVersioning } from './versioning';
+
+export type NexusConflictDecision = 'KEEP_LOCAL' | 'KEEP_REMOTE';
+
+export interface NexusConflictContext<T extends NexusGenericPrimaryType> {
+  idAttributeName: keyof T;
+  modificationDateAttributeName?: keyof T;
+  versioning?: NexusVersioning; // ISO by default
+}
+
+/**
+ * Called for every item edited locally that also changed on the remote since
+ * it was last synced. `baseItem` is that last synced version, when known.
+ * Returns the item to push, or a decision to keep one side as it is.
+ */
+export type NexusConflictResolver<T extends NexusGenericPrimaryType> = (
+  localItem: T,
+  remoteItem: T,
+  baseItem: T | undefined,
+  context: NexusConflictContext<T>
+) => T | NexusConflictDecision;
+
+/**
+ * Record deleted on one side while the other side still changed it:
+ * `DELETED_REMOTELY` when local edits target a record the remote deleted,
+ * `DELETED_LOCALLY` when a record deleted locally was edited on the remote.
+ */
+export interface NexusDeleteConflict<T extends NexusGenericPrimaryType> {
+  type: 'DELETED_REMOTELY' | 'DELETED_LOCALLY';
+  itemId: string;
+  localItem?: T; // Last local version, when deleted remotely
+  remoteItem?: T; // Remote version, when deleted locally
+  detectedAt: number;
+}
+
+/**
+ * Settles a delete conflict. `KEEP_LOCAL` restores the edited item on the
+ * remote, or pushes the local deletion. `KEEP_REMOTE` accepts the remote
+ * deletion, or brings the remote item back. `undefined` leaves the conflict
+ * pending until the app resolves it.
+ */
+export type NexusDeleteConflictResolver<T extends NexusGenericPrimaryType> = (
+  conflict: NexusDeleteConflict<T>
+) => NexusConflictDecision | undefined;
+
+export const getConflictsKey = (async_DATA_KEY: string) =>
+  async_DATA_KEY + '_conflicts';
+
+export const serverWins: NexusConflictResolver<any> = () => 'KEEP_REMOTE';
+
+export const clientWins: NexusConflictResolver<any> = () => 'KEEP_LOCAL';
+
+/**
+ * Keeps the side with the most recent `modificationDateAttributeName`, as
+ * ordered by the versioning scheme. Falls back to the local item when the
+ * versions can not be compared.
+ */
+export const lastWriteWins: NexusConflictResolver<any> = (
+  localItem,
+  remoteItem,
+  _baseItem,
+  { modificationDateAttributeName, versioning }
+) => {
+  if (modificationDateAttributeName === undefined) {
+    return 'KEEP_LOCAL';
+  }
+
+  const order = compareVersions(
+    localItem?.[modificationDateAttributeName],
+    remoteItem?.[modificationDateAttributeName],
+    versioning
+  );
+  if (order === undefined) {
+    return 'KEEP_LOCAL';
+  }
+
+  return order > 0 ? 'KEEP_LOCAL' : 'KEEP_REMOTE';
+};
+
+/**
+ * Field level merge against the base version: fields changed on one side
+ * only are taken from that side, fields changed on both keep the local value.
+ * Without a base version it behaves like `lastWriteWins`.
+ */
+export const threeWayMerge: NexusConflictResolver<any> = (
+  localItem,
+  remoteItem,
+  baseItem,
+  context
+) => {
+  if (baseItem === undefined) {
+    return lastWriteWins(localItem, remoteItem, baseItem, context);
+  }
+
+  const mergedItem: any = {};
+  const keys = new Set([
+    ...Object.keys(baseItem),
+    ...Object.keys(localItem),
+    ...Object.keys(remoteItem),
+  ]);
+
+  keys.forEach((key) => {
+    const localChanged = !isDeepEqual(localItem[key], baseItem[key]);
+    const remoteChanged = !isDeepEqual(remoteItem[key], baseItem[key]);
+    const value =
+      remoteChanged && !localChanged ? remoteItem[key] : localItem[key];
+
+    if (value !== undefined) {
+      mergedItem[key] = value;
+    }
+  });
+
+  return mergedItem;
+};
+
+export function isDeepEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (
+    a === null ||
+    b === null ||
+    typeof a !== 'object' ||
+    typeof b !== 'object' ||
+    Array.isArray(a) !== Array.isArray(b)
+  ) {
+    return false;
+  }
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) => isDeepEqual(a[key], b[key]))
+  );
+}
@@ -0,0 +1,56 @@
+export type NexusConnectivityListener = (isOnline: boolean) => void;
+
+/**
+ * Source of the network status. The listener is called with the current
+ * status as soon as it is known, then on every change.
+ */
+export interface NexusConnectivityProvider {
+  subscribe(listener: NexusConnectivityListener): () => void;
+}
+
+/** Provider driven by hand, for tests and for apps with their own detection. */
+export class FakeConnectivityProvider implements NexusConnectivityProvider {
+  private readonly listeners = new Set<NexusConnectivityListener>();
+
+  constructor(private isOnline: boolean | null = null) {}
+
+  subscribe(listener: NexusConnectivityListener): () => void {
+    this.listeners.add(listener);
+    if (this.isOnline !== null) {
+      listener(this.isOnline);
+    }
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  setOnline(isOnline: boolean): void {
+    this.isOnline = isOnline;
+    this.listeners.forEach((listener) => listener(isOnline));
+  }
+}
+
+export const DEFAULT_REACHABILITY_TIMEOUT = 5000;
+
+/**
+ * Whether the backend answers `ping` in time. A ping resolving to `false`
+ * counts as unreachable too.
+ */
+export function checkReachability(
+  ping: () => Promise<unknown>,
+  timeout: number = DEFAULT_REACHABILITY_TIMEOUT
+): Promise<boolean> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => resolve(false), timeout);
+    ping().then(
+      (result) => {
+        clearTimeout(timer);
+        resolve(result !== false);
+      },
+      () => {
+        clearTimeout(timer);
+        resolve(false);
+      }
+    );
+  });
+}
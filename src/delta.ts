@@ -0,0 +1,117 @@
+import { isDeepEqual } from './conflicts';
+import type { NexusSyncScope } from './scope';
+import type { NexusStorageAdapter } from './storage';
+import type {
+  NexusGenericPrimaryType,
+  NexusRemoteChanges,
+  NexusRemoteMethods,
+} from './types';
+
+export const getCursorKey = (async_DATA_KEY: string) =>
+  async_DATA_KEY + '_cursor';
+
+/**
+ * What a sync got from the remote: either the whole collection (`full`) or
+ * only what changed since the stored cursor.
+ */
+export interface NexusRemoteSnapshot<T extends NexusGenericPrimaryType> {
+  full: boolean;
+  changed: T[];
+  deleted: string[];
+  cursor?: string;
+  serverTime?: number | string;
+}
+
+/** Cursor stored along the scope it was given for. */
+interface NexusStoredCursor {
+  cursor: string;
+  scope: NexusSyncScope;
+}
+
+/** Cursors of collections synced whole are stored as they are. */
+export function serializeCursor(
+  cursor: string,
+  scope: NexusSyncScope | undefined
+): string {
+  if (scope === undefined) {
+    return JSON.stringify(cursor);
+  }
+  const stored: NexusStoredCursor = { cursor, scope };
+  return JSON.stringify(stored);
+}
+
+/**
+ * Stored cursor, or null when it was given for another scope: the changes
+ * since then would miss the items of the new scope.
+ */
+export async function loadCursor(
+  storage: NexusStorageAdapter,
+  async_DATA_KEY: string,
+  scope?: NexusSyncScope
+): Promise<string | null> {
+  const cursorString = await storage.getItem(getCursorKey(async_DATA_KEY));
+  if (cursorString === null) {
+    return null;
+  }
+  const stored = JSON.parse(cursorString) as string | NexusStoredCursor;
+  if (typeof stored === 'string') {
+    return scope === undefined ? stored : null;
+  }
+  return isDeepEqual(stored.scope, scope) ? stored.cursor : null;
+}
+
+/**
+ * Asks for the changes since `cursor` when possible. Without a cursor the
+ * first load goes through the full GET, falling back to `GET_CHANGES(null)`
+ * when there is no GET. With a `scope`, a full snapshot holds only the items
+ * of that scope.
+ */
+export async function fetchRemoteSnapshot<T extends NexusGenericPrimaryType>(
+  remoteMethods: NexusRemoteMethods<T>,
+  cursor: string | null,
+  signal?: AbortSignal,
+  scope?: NexusSyncScope
+): Promise<NexusRemoteSnapshot<T>> {
+  if (remoteMethods.GET_CHANGES && (cursor !== null || !remoteMethods.GET)) {
+    const changes = await remoteMethods.GET_CHANGES(cursor, signal, scope);
+    return { full: cursor === null, ...changes };
+  }
+
+  if (!remoteMethods.GET) {
+    return { full: false, changed: [], deleted: [] };
+  }
+
+  const remoteData = await remoteMethods.GET(signal, scope);
+  return Array.isArray(remoteData)
+    ? { full: true, changed: remoteData, deleted: [] }
+    : {
+        full: true,
+        changed: remoteData.items,
+        deleted: [],
+        cursor: remoteData.cursor,
+        serverTime: remoteData.serverTime,
+      };
+}
+
+/** Merges remote changes into the items known locally. */
+export function applyRemoteChanges<T extends NexusGenericPrimaryType>(
+  items: T[],
+  changes: Pick<NexusRemoteChanges<T>, 'changed' | 'deleted'>,
+  idAttributeName: keyof T
+): T[] {
+  const changedItems = new Map(
+    changes.changed.map((item) => [String(item?.[idAttributeName]), item])
+  );
+  const deletedIds = new Set(changes.deleted.map(String));
+
+  const result = items
+    .filter((item) => !deletedIds.has(String(item?.[idAttributeName])))
+    .map((item) => {
+      const itemId = String(item?.[idAttributeName]);
+      const changedItem = changedItems.get(itemId);
+      changedItems.delete(itemId);
+      return changedItem ?? item;
+    });
+
+  return [...result, ...changedItems.values()];
+}
@@ -0,0 +1,19 @@
+import { isDeepEqual } from './conflicts';
+import type { NexusGenericPrimaryType } from './types';
+
+/**
+ * Attributes of `item` that differ from `baseItem`. Attributes removed
+ * locally are set to `null`, so they survive JSON.
+ */
+export function getChangedFields<T extends NexusGenericPrimaryType>(
+  baseItem: T,
+  item: T
+): Partial<T> {
+  const changedFields: any = {};
+  new Set([...Object.keys(baseItem), ...Object.keys(item)]).forEach((key) => {
+    if (!isDeepEqual(baseItem[key], item[key])) {
+      changedFields[key] = item[key] === undefined ? null : item[key];
+    }
+  });
+  return changedFields;
+}
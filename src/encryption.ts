@@ -0,0 +1,320 @@
+/* eslint-disable no-bitwise */
+import { aesGcmDecrypt, aesGcmEncrypt } from './aesGcm';
+import { NEXUSSYNC_KEYS, type NexusStorageAdapter } from './storage';
+
+/**
+ * Encrypts the values written to storage. `associatedData` is the storage
+ * key, so a value can not be moved to another key unnoticed.
+ */
+export interface NexusCipher {
+  encrypt(
+    plaintext: string,
+    key: Uint8Array,
+    associatedData: string
+  ): Promise<string>;
+  decrypt(
+    ciphertext: string,
+    key: Uint8Array,
+    associatedData: string
+  ): Promise<string>;
+}
+
+/** A key and the id stored along the values it encrypted. */
+export interface NexusEncryptionKey {
+  id: string; // Without ':'
+  key: Uint8Array | string; // Bytes, or their hex or base64 form
+}
+
+export interface NexusEncryptionOptions {
+  // Current key, or a function reading it from the keychain
+  key: NexusEncryptionKey | (() => Promise<NexusEncryptionKey>);
+  // Keys used before, still read until everything is encrypted with `key`
+  previousKeys?: NexusEncryptionKey[];
+  cipher?: NexusCipher; // AES-GCM by default
+}
+
+const ENCRYPTED_PREFIX = 'nexus-enc:1:';
+
+const BASE64_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+export function encodeBase64(bytes: Uint8Array): string {
+  let base64 = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk =
+      (bytes[i]! << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    base64 +=
+      BASE64_ALPHABET[(chunk >> 18) & 63]! +
+      BASE64_ALPHABET[(chunk >> 12) & 63]! +
+      (i + 1 < bytes.length ? BASE64_ALPHABET[(chunk >> 6) & 63]! : '=') +
+      (i + 2 < bytes.length ? BASE64_ALPHABET[chunk & 63]! : '=');
+  }
+  return base64;
+}
+
+export function decodeBase64(base64: string): Uint8Array {
+  const clean = base64.replace(/[=]+$/, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let length = 0;
+  for (const character of clean) {
+    const value = BASE64_ALPHABET.indexOf(character);
+    if (value === -1) {
+      throw new Error('Invalid base64');
+    }
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[length++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes.subarray(0, length);
+}
+
+// TextEncoder is missing from older Hermes versions
+function encodeUtf8(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const character of text) {
+    const codePoint = character.codePointAt(0)!;
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else if (codePoint < 0x800) {
+      bytes.push(0xc0 | (codePoint >> 6), 0x80 | (codePoint & 63));
+    } else if (codePoint < 0x10000) {
+      bytes.push(
+        0xe0 | (codePoint >> 12),
+        0x80 | ((codePoint >> 6) & 63),
+        0x80 | (codePoint & 63)
+      );
+    } else {
+      bytes.push(
+        0xf0 | (codePoint >> 18),
+        0x80 | ((codePoint >> 12) & 63),
+        0x80 | ((codePoint >> 6) & 63),
+        0x80 | (codePoint & 63)
+      );
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; ) {
+    const byte = bytes[i]!;
+    const length = byte < 0x80 ? 1 : byte < 0xe0 ? 2 : byte < 0xf0 ? 3 : 4;
+    let codePoint = length === 1 ? byte : byte & (0xff >> (length + 1));
+    for (let j = 1; j < length; j++) {
+      codePoint = (codePoint << 6) | (bytes[i + j]! & 63);
+    }
+    text += String.fromCodePoint(codePoint);
+    i += length;
+  }
+  return text;
+}
+
+function getRandomBytes(length: number): Uint8Array {
+  const crypto = (globalThis as any).crypto;
+  if (typeof crypto?.getRandomValues !== 'function') {
+    throw new Error(
+      'crypto.getRandomValues is missing, install react-native-get-random-values'
+    );
+  }
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+// Bytes of the keys given as strings, decoded once so they are imported once
+const keyBytes = new WeakMap<NexusEncryptionKey, Uint8Array>();
+
+function getKeyBytes(encryptionKey: NexusEncryptionKey): Uint8Array {
+  const { key } = encryptionKey;
+  if (typeof key !== 'string') {
+    return key;
+  }
+  let bytes = keyBytes.get(encryptionKey);
+  if (!bytes) {
+    bytes = /^([0-9a-f]{2})+$/i.test(key)
+      ? new Uint8Array((key.match(/../g) ?? []).map((hex) => parseInt(hex, 16)))
+      : decodeBase64(key);
+    keyBytes.set(encryptionKey, bytes);
+  }
+  return bytes;
+}
+
+// Keys imported into WebCrypto, by their bytes
+const subtleKeys = new WeakMap<Uint8Array, Promise<unknown>>();
+
+/** WebCrypto, when the engine has it, as browsers and Node do. */
+function getSubtleCrypto(): any {
+  const subtle = (globalThis as any).crypto?.subtle;
+  return typeof subtle?.encrypt === 'function' ? subtle : undefined;
+}
+
+function importSubtleKey(subtle: any, key: Uint8Array): Promise<unknown> {
+  let subtleKey = subtleKeys.get(key);
+  if (!subtleKey) {
+    subtleKey = subtle.importKey('raw', key, 'AES-GCM', false, [
+      'encrypt',
+      'decrypt',
+    ]) as Promise<unknown>;
+    subtleKeys.set(key, subtleKey);
+    subtleKey.catch(() => subtleKeys.delete(key));
+  }
+  return subtleKey;
+}
+
+/**
+ * Default cipher, AES-GCM with a random IV for every value. Runs on
+ * WebCrypto when available, in JavaScript otherwise, with the same output.
+ */
+export const aesGcmCipher: NexusCipher = {
+  encrypt: async (plaintext, key, associatedData) => {
+    const iv = getRandomBytes(12);
+    const data = encodeUtf8(plaintext);
+    const aad = encodeUtf8(associatedData);
+    const subtle = getSubtleCrypto();
+    if (!subtle) {
+      return encodeBase64(aesGcmEncrypt(key, iv, data, aad));
+    }
+
+    // WebCrypto appends the tag to the ciphertext, as aesGcmEncrypt does
+    const ciphertext = new Uint8Array(
+      await subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: aad },
+        await importSubtleKey(subtle, key),
+        data
+      )
+    );
+    const sealed = new Uint8Array(iv.length + ciphertext.length);
+    sealed.set(iv);
+    sealed.set(ciphertext, iv.length);
+    return encodeBase64(sealed);
+  },
+  decrypt: async (ciphertext, key, associatedData) => {
+    const sealed = decodeBase64(ciphertext);
+    const aad = encodeUtf8(associatedData);
+    const subtle = getSubtleCrypto();
+    if (!subtle) {
+      return decodeUtf8(aesGcmDecrypt(key, sealed, aad));
+    }
+
+    const subtleKey = await importSubtleKey(subtle, key);
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await subtle.decrypt(
+        { name: 'AES-GCM', iv: sealed.subarray(0, 12), additionalData: aad },
+        subtleKey,
+        sealed.subarray(12)
+      );
+    } catch {
+      // Reported as the JavaScript implementation does
+      throw new Error('AES-GCM authentication failed');
+    }
+    return decodeUtf8(new Uint8Array(plaintext));
+  },
+};
+
+/**
+ * Storage adapter encrypting every value it writes. Values written before
+ * encryption was enabled are still read as they are. The list of collection
+ * keys stays readable, it holds no data and is shared by every collection.
+ */
+export class EncryptedStorageAdapter implements NexusStorageAdapter {
+  private currentKey: Promise<NexusEncryptionKey> | null = null;
+
+  constructor(
+    private readonly storage: NexusStorageAdapter,
+    private readonly encryption: NexusEncryptionOptions
+  ) {}
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.storage.getItem(key);
+    if (value === null || !value.startsWith(ENCRYPTED_PREFIX)) {
+      return value;
+    }
+
+    const separator = value.indexOf(':', ENCRYPTED_PREFIX.length);
+    const keyId = value.slice(ENCRYPTED_PREFIX.length, separator);
+    const encryptionKey = await this.findKey(keyId);
+    return this.getCipher().decrypt(
+      value.slice(separator + 1),
+      getKeyBytes(encryptionKey),
+      key
+    );
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    if (key === NEXUSSYNC_KEYS) {
+      return this.storage.setItem(key, value);
+    }
+
+    const encryptionKey = await this.getCurrentKey();
+    const ciphertext = await this.getCipher().encrypt(
+      value,
+      getKeyBytes(encryptionKey),
+      key
+    );
+    return this.storage.setItem(
+      key,
+      `${ENCRYPTED_PREFIX}${encryptionKey.id}:${ciphertext}`
+    );
+  }
+
+  removeItem(key: string): Promise<void> {
+    return this.storage.removeItem(key);
+  }
+
+  /**
+   * Rewrites the values of `keys` stored in clear or with a previous key,
+   * so that previous keys can be dropped.
+   */
+  async reencrypt(keys: string[]): Promise<void> {
+    const { id } = await this.getCurrentKey();
+    const currentPrefix = `${ENCRYPTED_PREFIX}${id}:`;
+    for (const key of keys) {
+      const storedValue = await this.storage.getItem(key);
+      if (
+        key === NEXUSSYNC_KEYS ||
+        storedValue === null ||
+        storedValue.startsWith(currentPrefix)
+      ) {
+        continue;
+      }
+      const value = await this.getItem(key);
+      if (value !== null) {
+        await this.setItem(key, value);
+      }
+    }
+  }
+
+  private getCurrentKey(): Promise<NexusEncryptionKey> {
+    if (!this.currentKey) {
+      const { key } = this.encryption;
+      this.currentKey =
+        typeof key === 'function' ? key() : Promise.resolve(key);
+      // A failing provider is asked again next time
+      this.currentKey.catch(() => {
+        this.currentKey = null;
+      });
+    }
+    return this.currentKey;
+  }
+
+  private async findKey(keyId: string): Promise<NexusEncryptionKey> {
+    const currentKey = await this.getCurrentKey();
+    const encryptionKey = [
+      currentKey,
+      ...(this.encryption.previousKeys ?? []),
+    ].find(({ id }) => id === keyId);
+    if (!encryptionKey) {
+      throw new Error(`Unknown encryption key ${keyId}`);
+    }
+    return encryptionKey;
+  }
+
+  private getCipher(): NexusCipher {
+    return this.encryption.cipher ?? aesGcmCipher;
+  }
+}
@@ -0,0 +1,2601 @@
+import {
+  clientWins,
+  getConflictsKey,
+  isDeepEqual,
+  type NexusConflictDecision,
+  type NexusConflictResolver,
+  type NexusDeleteConflict,
+  type NexusDeleteConflictResolver,
+} from './conflicts';
+import { checkReachability } from './connectivity';
+import { getChangedFields } from './diff';
+import {
+  EncryptedStorageAdapter,
+  type NexusEncryptionOptions,
+} from './encryption';
+import { NexusSyncError, NexusSyncErrorCode } from './errors';
+import {
+  getPulledChanges,
+  type NexusSyncEvents,
+  type NexusSyncSummary,
+} from './events';
+import {
+  applyRemoteChanges,
+  fetchRemoteSnapshot,
+  getCursorKey,
+  loadCursor,
+  serializeCursor,
+  type NexusRemoteSnapshot,
+} from './delta';
+import {
+  createTemporaryId,
+  getIdMapKey,
+  hasTemporaryForeignKeys,
+  loadIdMap,
+  publishIdRemap,
+  remapForeignKeys,
+  subscribeToIdRemaps,
+  type NexusForeignKeys,
+  type NexusIdMap,
+} from './idMap';
+import {
+  SYNCED_RECORD,
+  getItemsWithStatus,
+  getMetadataKey,
+  getRecordSyncState,
+  stripLegacyFlags,
+  type NexusItemWithStatus,
+  type NexusRecordMetadata,
+} from './metadata';
+import {
+  migrateItems,
+  parseCollection,
+  serializeCollection,
+  type NexusMigration,
+  type NexusStoredCollection,
+} from './migrations';
+import {
+  NexusOutbox,
+  applyOperations,
+  getDeadLetterKey,
+  getOutboxKey,
+  type NexusDeadLetter,
+  type NexusOperation,
+  type NexusOperationType,
+} from './outbox';
+import {
+  NexusCollectionIndex,
+  runQuery,
+  type NexusQuery,
+  type NexusQueryResult,
+} from './query';
+import {
+  DEFAULT_STORAGE_LAYOUT,
+  getIndexKey,
+  getRecordKey,
+  getRecordStorageKeys,
+  parseIndex,
+  readRecords,
+  serializeIndex,
+  type NexusStorageLayout,
+} from './recordLayout';
+import {
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  type NexusRetryPolicy,
+} from './retry';
+import {
+  matchesScope,
+  type NexusScopeMatcher,
+  type NexusSyncScope,
+} from './scope';
+import {
+  getRegisteredCollectionKeys,
+  registerCollectionKey,
+  type NexusStorageAdapter,
+} from './storage';
+import type {
+  NexusBatchResult,
+  NexusGenericPrimaryType,
+  NexusRemoteMethods,
+} from './types';
+import {
+  DEFAULT_VERSIONING,
+  NexusClock,
+  type NexusVersioning,
+} from './versioning';
+
+export interface NexusSyncEngineOptions<T extends NexusGenericPrimaryType>
+  extends NexusSyncEvents<T> {
+  async_DATA_KEY: string;
+  storage: NexusStorageAdapter;
+  initialData?: T[];
+  useMethodsOnly?: boolean;
+  syncRemoteData?: boolean;
+  consoleDebug?: boolean;
+  idAttributeName?: keyof T;
+  modificationDateAttributeName?: keyof T;
+  remoteMethods?: NexusRemoteMethods<T>;
+  conflictResolver?: NexusConflictResolver<T>; // clientWins by default
+  deleteConflictResolver?: NexusDeleteConflictResolver<T>; // Left pending by default
+  retryPolicy?: Partial<NexusRetryPolicy>;
+  foreignKeys?: NexusForeignKeys<T>;
+  onError?: (error: NexusSyncError) => void;
+  reachabilityTimeout?: number; // Milliseconds given to remoteMethods.PING
+  optimistic?: boolean; // Show online changes before the remote confirms them
+  optimisticFailure?: NexusOptimisticFailure; // ROLLBACK by default
+  batchSize?: number; // Changes per remoteMethods.BATCH call, 50 by default
+  concurrency?: number; // Remote calls running at once, 4 by default
+  versioning?: NexusVersioning; // How local changes are stamped, ISO by default
+  syncInterval?: number; // Milliseconds between syncs while the app is active
+  foregroundSyncGap?: number; // Minimum milliseconds since the last sync to resync on foreground, 30000 by default
+  migrations?: NexusMigration[]; // Upgrades of the stored items, in order
+  encryption?: NexusEncryptionOptions; // Encrypts everything written to storage
+  storageLayout?: NexusStorageLayout; // COLLECTION by default, set before the collection is loaded
+  writeDelay?: number; // Milliseconds record writes are debounced, 200 by default
+  loadChunkSize?: number; // Records read at once, 100 by default
+  indexes?: (keyof T)[]; // Attributes queries look up instead of scanning
+  scope?: NexusSyncScope; // Params given to GET and GET_CHANGES, the whole collection by default
+  scopeMatcher?: NexusScopeMatcher<T>; // Whether a local item is in scope, by default its attributes equal the params
+}
+
+/**
+ * What happens to an optimistic change the remote rejects: it is undone, or
+ * kept and retried like a change made offline.
+ */
+export type NexusOptimisticFailure = 'ROLLBACK' | 'QUEUE';
+
+/** Options that can be changed once the engine has been created. */
+export type NexusSyncEngineMutableOptions<T extends NexusGenericPrimaryType> =
+  Partial<
+    Omit<
+      NexusSyncEngineOptions<T>,
+      'async_DATA_KEY' | 'storage' | 'initialData' | 'encryption'
+    >
+  >;
+
+export interface NexusSyncState<T extends NexusGenericPrimaryType> {
+  data: T[];
+  isOnline: boolean | null;
+  isReachable: boolean | undefined; // Last PING outcome
+  isLoading: boolean;
+  isSyncing: boolean;
+  error: NexusSyncError | undefined; // The last one
+  errors: NexusSyncError[];
+  isLocalDataUptoDate: boolean | undefined;
+  isRemoteDataUptoDate: boolean | undefined;
+  numberOfChangesPending: number | undefined;
+  dataDeletedOffline: string[];
+  deadLetters: NexusDeadLetter<T>[];
+  recordMetadata: Record<string, NexusRecordMetadata>; // Only records with a history
+  pendingConflicts: NexusDeleteConflict<T>[]; // Held back until resolved
+  lastSyncedAt: number | undefined;
+}
+
+export type NexusSyncListener<T extends NexusGenericPrimaryType> = (
+  state: NexusSyncState<T>
+) => void;
+
+export const getDeletedKey = (async_DATA_KEY: string) =>
+  async_DATA_KEY + '_deleted';
+
+export const getBaseKey = (async_DATA_KEY: string) => async_DATA_KEY + '_base';
+
+/** Every storage key written for a collection. */
+export const getCollectionStorageKeys = (async_DATA_KEY: string) => [
+  async_DATA_KEY,
+  getDeletedKey(async_DATA_KEY),
+  getOutboxKey(async_DATA_KEY),
+  getDeadLetterKey(async_DATA_KEY),
+  getBaseKey(async_DATA_KEY),
+  getIdMapKey(async_DATA_KEY),
+  getCursorKey(async_DATA_KEY),
+  getMetadataKey(async_DATA_KEY),
+  getConflictsKey(async_DATA_KEY),
+  getIndexKey(async_DATA_KEY),
+];
+
+// Errors kept in the state history, older ones are dropped
+const MAX_ERRORS = 50;
+
+const DEFAULT_BATCH_SIZE = 50;
+
+const DEFAULT_CONCURRENCY = 4;
+
+const DEFAULT_FOREGROUND_SYNC_GAP = 30000;
+
+const DEFAULT_WRITE_DELAY = 200;
+
+const DEFAULT_LOAD_CHUNK_SIZE = 100;
+
+/**
+ * Owns a collection: its in-memory state, its local persistence, the list of
+ * items deleted offline and the outbox replayed against the remote. It does
+ * not depend on React, state changes are published to subscribers.
+ */
+export class NexusSyncEngine<T extends NexusGenericPrimaryType> {
+  private options: NexusSyncEngineOptions<T>;
+  private state: NexusSyncState<T>;
+  private readonly listeners = new Set<NexusSyncListener<T>>();
+  private readonly outbox: NexusOutbox<T>;
+  // Last synced version of the items edited locally, used to detect and
+  // merge conflicts
+  private baseItems: Record<string, T> = {};
+  // Remote ids of the items created offline, for this collection and for the
+  // collections its foreign keys point to
+  private idMaps: Record<string, NexusIdMap> = {};
+  private unsubscribeFromIdRemaps: (() => void) | undefined;
+  private initializing: Promise<void> | null = null;
+  private syncing: Promise<void> | null = null;
+  private flushing: Promise<void> | null = null;
+  // Syncs and flushes run one after the other
+  private running: Promise<void> = Promise.resolve();
+  private pushingItemIds = new Set<string>();
+  // Aborted by cancel(), then replaced for the next runs
+  private abortController = new AbortController();
+  private readonly clock = new NexusClock();
+  // Counts of the sync running, reported once it completes
+  private syncSummary: NexusSyncSummary | null = null;
+  // Delta syncs build on the stored collection, it has to be read first
+  private localDataLoaded = false;
+  private writing: Promise<void> = Promise.resolve();
+  // Stored items a migration failed on are kept as they are for a later fix
+  private storedDataLocked = false;
+  // Records and index as stored, with the RECORDS layout, so that only the
+  // records that changed are written
+  private storedRecords = new Map<string, string>();
+  private storedIndex: string | null = null;
+  // Debounced write of the records, started by its timer or by a load
+  private pendingRecords: {
+    start: () => void;
+    done: Promise<void>;
+  } | null = null;
+  private recordsTimer: ReturnType<typeof setTimeout> | undefined;
+  // Built for the current data by the first query that needs it
+  private queryIndex: NexusCollectionIndex<T> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | undefined;
+  private pollTimer: ReturnType<typeof setTimeout> | undefined;
+  private isActive = true;
+
+  constructor(options: NexusSyncEngineOptions<T>) {
+    if (options.encryption) {
+      options = {
+        ...options,
+        storage: new EncryptedStorageAdapter(
+          options.storage,
+          options.encryption
+        ),
+      };
+    }
+    this.options = options;
+    this.outbox = new NexusOutbox<T>(
+      options.storage,
+      getOutboxKey(options.async_DATA_KEY),
+      getDeadLetterKey(options.async_DATA_KEY)
+    );
+    this.state = {
+      data: options.initialData ?? [],
+      isOnline: null,
+      isReachable: undefined,
+      isLoading: false,
+      isSyncing: false,
+      error: undefined,
+      errors: [],
+      isLocalDataUptoDate: undefined,
+      isRemoteDataUptoDate: undefined,
+      numberOfChangesPending: undefined,
+      dataDeletedOffline: [],
+      deadLetters: [],
+      recordMetadata: {},
+      pendingConflicts: [],
+      lastSyncedAt: undefined,
+    };
+  }
+
+  get key(): string {
+    return this.options.async_DATA_KEY;
+  }
+
+  getState(): NexusSyncState<T> {
+    return this.state;
+  }
+
+  subscribe(listener: NexusSyncListener<T>): () => void {
+    this.listeners.add(listener);
+    this.pollTimer === undefined && this.schedulePoll();
+    return () => {
+      this.listeners.delete(listener);
+      this.listeners.size === 0 && this.schedulePoll();
+    };
+  }
+
+  /**
+   * Updates the options given. Those left undefined keep their value, so
+   * that hooks of a collection passing fewer options do not unset the others.
+   */
+  setOptions(options: NexusSyncEngineMutableOptions<T>): void {
+    const previousSyncInterval = this.options.syncInterval;
+    const definedOptions = Object.fromEntries(
+      Object.entries(options).filter(([, value]) => value !== undefined)
+    );
+    this.options = { ...this.options, ...definedOptions };
+    if (this.options.syncInterval !== previousSyncInterval) {
+      this.schedulePoll();
+    }
+  }
+
+  setOnline(isOnline: boolean): void {
+    if (this.state.isOnline !== isOnline) {
+      this.setState({ isOnline });
+      this.schedulePoll();
+    }
+  }
+
+  /**
+   * Tells whether the app is in the foreground. Polling only runs while it
+   * is, and coming back to it syncs when the last sync is older than
+   * `foregroundSyncGap`.
+   */
+  setActive(isActive: boolean): void {
+    if (this.isActive === isActive) {
+      return;
+    }
+
+    this.isActive = isActive;
+    const { lastSyncedAt } = this.state;
+    const foregroundSyncGap =
+      this.options.foregroundSyncGap ?? DEFAULT_FOREGROUND_SYNC_GAP;
+    if (
+      isActive &&
+      this.state.isOnline &&
+      this.listeners.size > 0 &&
+      (lastSyncedAt === undefined ||
+        Date.now() - lastSyncedAt >= foregroundSyncGap)
+    ) {
+      this.sync();
+    }
+    this.schedulePoll();
+  }
+
+  /**
+   * Time of the remote, for instance from the `Date` header of a response.
+   * Local changes are stamped with it, whatever the device clock says.
+   */
+  setServerTime(serverTime: number | string): void {
+    this.clock.setServerTime(serverTime);
+  }
+
+  /**
+   * Stops the sync running, if any: its remote calls get an aborted signal
+   * and nothing it fetched is applied. Changes already confirmed by the
+   * remote stay confirmed, the others stay pending.
+   */
+  cancel(): void {
+    this.abortController.abort();
+    this.abortController = new AbortController();
+  }
+
+  /**
+   * Cancels the sync running and stops the scheduled retries and the id
+   * remaps of other collections, until `resume`. Debounced writes are done
+   * right away.
+   */
+  dispose(): void {
+    this.cancel();
+    this.flushRecords().catch(() => undefined);
+    clearTimeout(this.retryTimer);
+    this.retryTimer = undefined;
+    clearTimeout(this.pollTimer);
+    this.pollTimer = undefined;
+    this.unsubscribeFromIdRemaps?.();
+    this.unsubscribeFromIdRemaps = undefined;
+  }
+
+  /**
+   * Follows the id remaps of other collections, until `dispose`. Called by
+   * the registry when the engine is retained, so that an engine created by a
+   * render React throws away holds no subscription. Does nothing if it
+   * already follows them.
+   */
+  resume(): void {
+    if (this.unsubscribeFromIdRemaps) {
+      return;
+    }
+    this.unsubscribeFromIdRemaps = subscribeToIdRemaps(
+      (async_DATA_KEY, temporaryId, remoteId) => {
+        this.applyIdRemap(async_DATA_KEY, temporaryId, remoteId).catch(
+          (err: any) => {
+            this.reportError(
+              new NexusSyncError(NexusSyncErrorCode.ID_REMAP_FAILED, {
+                itemId: temporaryId,
+                cause: err,
+                retryable: true,
+              })
+            );
+          }
+        );
+      }
+    );
+  }
+
+  clearErrors(): void {
+    this.setState({ error: undefined, errors: [] });
+  }
+
+  /** Sync status of a record, by its current or temporary id. */
+  getItemSyncStatus(id: string): NexusRecordMetadata {
+    return this.state.recordMetadata[this.resolveId(id)] ?? SYNCED_RECORD;
+  }
+
+  getItemsWithStatus(): NexusItemWithStatus<T>[] {
+    return getItemsWithStatus(
+      this.state.data,
+      this.state.recordMetadata,
+      this.options.idAttributeName
+    );
+  }
+
+  /**
+   * Runs `query` against the local collection, or against `data`, a version
+   * of it received from `subscribe`.
+   */
+  query(
+    query: NexusQuery<T> = {},
+    data: T[] = this.state.data
+  ): NexusQueryResult<T> {
+    const { indexes = [] } = this.options;
+    if (this.queryIndex && isDeepEqual(this.queryIndex.attributes, indexes)) {
+      this.queryIndex.update(data);
+    } else {
+      this.queryIndex = new NexusCollectionIndex(data, indexes);
+    }
+    return runQuery(data, query, this.queryIndex);
+  }
+
+  /** Remote id of an item created offline, or the id itself. */
+  resolveId(id: string): string {
+    return this.idMaps[this.key]?.[id] ?? id;
+  }
+
+  /**
+   * Registers the collection and restores the pending changes. Runs once,
+   * every other entry point waits for it.
+   */
+  initialize(): Promise<void> {
+    if (!this.initializing) {
+      this.initializing = this.options.useMethodsOnly
+        ? Promise.resolve()
+        : this.restorePendingChanges().catch((err: any) => {
+            this.reportError(
+              new NexusSyncError(NexusSyncErrorCode.RESTORE_FAILED, {
+                operation: 'LOAD',
+                cause: err,
+              })
+            );
+          });
+    }
+    return this.initializing;
+  }
+
+  /*
+			--- GETTING DATA ---
+	*/
+  async loadLocalData(): Promise<T[]> {
+    if (this.options.useMethodsOnly) {
+      return this.state.data;
+    }
+
+    await this.initialize();
+    // Changes not written yet would be lost otherwise
+    await this.flushRecords().catch(() => undefined);
+    await this.writing.catch(() => undefined);
+
+    let stored: NexusStoredCollection<T> | null = null;
+    try {
+      stored = await this.readStoredCollection();
+    } catch (err: any) {
+      this.reportError(err);
+    }
+
+    if (stored && !this.storedDataLocked) {
+      this.receiveItemVersions(stored.items);
+      this.setState({
+        data: stored.items.map((item) =>
+          this.remapForeignKeys(stripLegacyFlags(item))
+        ),
+      });
+      this.localDataLoaded = true;
+    }
+
+    return this.state.data;
+  }
+
+  /**
+   * Fetches the remote collection, or only its changes since the stored
+   * cursor, pushes the outbox when `syncRemoteData` is enabled and lays
+   * whatever is still pending over the remote data. Calls made while a sync
+   * runs share it.
+   */
+  sync(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = this.exclusive(() => this.runSync()).finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * Pushes the outbox right away, without fetching the remote collection.
+   * Used for optimistic changes. Calls made before it starts share it.
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.exclusive(() => {
+        this.flushing = null;
+        return this.runFlush();
+      });
+    }
+    return this.flushing;
+  }
+
+  private async runSync(): Promise<void> {
+    const remoteMethods = this.options.remoteMethods;
+    if (
+      this.options.useMethodsOnly ||
+      remoteMethods === undefined ||
+      (remoteMethods.GET === undefined &&
+        remoteMethods.GET_CHANGES === undefined)
+    ) {
+      return;
+    }
+
+    const { signal } = this.abortController;
+    // Online does not mean the backend can be reached
+    const PING = remoteMethods.PING;
+    if (PING) {
+      const isReachable = await checkReachability(
+        () => PING(signal),
+        this.options.reachabilityTimeout
+      );
+      this.setState({ isReachable });
+      if (!isReachable || signal.aborted) {
+        return;
+      }
+    }
+
+    this.setState({ isSyncing: true, isLoading: true });
+    const summary: NexusSyncSummary = {
+      pushed: 0,
+      pulled: 0,
+      conflicts: 0,
+      failed: 0,
+      pending: 0,
+      startedAt: Date.now(),
+      finishedAt: 0,
+    };
+    this.syncSummary = summary;
+    this.emit('onSyncStart');
+
+    try {
+      await this.initialize();
+      await this.loadIdMaps();
+
+      const { idAttributeName, modificationDateAttributeName, scope } =
+        this.options;
+      const remoteSnapshot = await fetchRemoteSnapshot(
+        remoteMethods,
+        idAttributeName === undefined
+          ? null
+          : await loadCursor(this.options.storage, this.key, scope),
+        signal,
+        scope
+      );
+      if (signal.aborted) {
+        return;
+      }
+      this.receiveVersions(remoteSnapshot);
+
+      if (
+        idAttributeName === undefined ||
+        modificationDateAttributeName === undefined
+      ) {
+        this.options.consoleDebug &&
+          console.warn(
+            `WARNING NEXUSSYNC_002: No idAttributeName or modificationDateAttributeName
+					Attribute provided on hook initialization, it means that will this component will works offline
+					and will be updated always local data and display Remote data `
+          );
+
+        this.setState({
+          data: remoteSnapshot.changed,
+          isLocalDataUptoDate: true,
+          lastSyncedAt: Date.now(),
+        });
+        this.localDataLoaded = true;
+        await this.persistData();
+        return;
+      }
+
+      if (!remoteSnapshot.full && !this.localDataLoaded) {
+        await this.loadLocalData();
+      }
+      const previousData = this.state.data;
+
+      // Only the items that changed remotely can conflict
+      await this.resolveConflicts(remoteSnapshot.changed, idAttributeName);
+      await this.detectDeleteConflicts(remoteSnapshot, idAttributeName);
+
+      const confirmedOperations =
+        this.options.syncRemoteData && this.outbox.size > 0
+          ? await this.pushOutbox(idAttributeName, signal)
+          : [];
+      if (signal.aborted) {
+        return;
+      }
+      const unconfirmedOperations = this.getUnconfirmedOperations();
+      // A scoped snapshot says nothing of the items outside its scope
+      const remoteData = remoteSnapshot.full
+        ? scope === undefined
+          ? remoteSnapshot.changed
+          : applyRemoteChanges(
+              this.getKnownRemoteData(idAttributeName).filter(
+                (item) => !this.isInScope(item)
+              ),
+              { changed: remoteSnapshot.changed, deleted: [] },
+              idAttributeName
+            )
+        : applyRemoteChanges(
+            this.getKnownRemoteData(idAttributeName),
+            remoteSnapshot,
+            idAttributeName
+          );
+
+      const locallyChangedIds = new Set([
+        ...Object.keys(this.idMaps[this.key] ?? {}),
+        ...[...confirmedOperations, ...unconfirmedOperations].map(
+          (operation) => operation.itemId
+        ),
+      ]);
+      getPulledChanges(
+        previousData,
+        remoteData,
+        idAttributeName,
+        locallyChangedIds
+      ).forEach((event) => {
+        summary.pulled++;
+        this.emit('onItemSynced', event);
+      });
+
+      // Remote data is the base, local changes not confirmed yet are laid
+      // over it
+      this.setState({
+        data: applyOperations(
+          remoteData,
+          [...confirmedOperations, ...unconfirmedOperations],
+          idAttributeName
+        ),
+        isLocalDataUptoDate: true,
+        lastSyncedAt: Date.now(),
+        ...this.getOutboxState(),
+      });
+      this.localDataLoaded = true;
+      this.settleBaseItems(confirmedOperations, unconfirmedOperations);
+      this.settleRecordMetadata([
+        ...remoteSnapshot.changed.map((item) =>
+          String(item?.[idAttributeName])
+        ),
+        ...confirmedOperations.map((operation) => operation.itemId),
+      ]);
+      this.options.syncRemoteData && this.scheduleRetry();
+      await Promise.all([
+        this.persistData(),
+        this.persistDeletedOffline(),
+        this.persistBaseItems(),
+        remoteSnapshot.cursor === undefined
+          ? Promise.resolve()
+          : this.write(
+              getCursorKey(this.key),
+              serializeCursor(remoteSnapshot.cursor, scope)
+            ),
+      ]);
+    } catch (err: any) {
+      if (signal.aborted) {
+        return;
+      }
+      summary.error = this.reportError(
+        new NexusSyncError(NexusSyncErrorCode.SYNC_FAILED, {
+          operation: 'SYNC',
+          cause: err,
+          retryable: true,
+        })
+      );
+    } finally {
+      this.syncSummary = null;
+      this.setState({ isSyncing: false, isLoading: false });
+      // The next poll counts from the end of this sync
+      this.schedulePoll();
+      this.emit('onSyncComplete', {
+        ...summary,
+        cancelled: signal.aborted,
+        pending: this.state.numberOfChangesPending ?? 0,
+        finishedAt: Date.now(),
+      });
+    }
+  }
+
+  private async runFlush(): Promise<void> {
+    const idAttributeName = this.options.idAttributeName;
+    if (this.options.useMethodsOnly || idAttributeName === undefined) {
+      return;
+    }
+
+    const { signal } = this.abortController;
+    try {
+      await this.initialize();
+      if (this.outbox.size === 0) {
+        return;
+      }
+
+      const confirmedOperations = await this.pushOutbox(
+        idAttributeName,
+        signal
+      );
+      if (signal.aborted) {
+        return;
+      }
+      const unconfirmedOperations = this.getUnconfirmedOperations();
+      this.setState({
+        data: applyOperations(
+          this.getKnownRemoteData(idAttributeName),
+          [...confirmedOperations, ...unconfirmedOperations],
+          idAttributeName
+        ),
+        ...this.getOutboxState(),
+      });
+      this.settleBaseItems(confirmedOperations, unconfirmedOperations);
+      this.settleRecordMetadata(
+        confirmedOperations.map((operation) => operation.itemId)
+      );
+      this.scheduleRetry();
+      await Promise.all([
+        this.persistData(),
+        this.persistDeletedOffline(),
+        this.persistBaseItems(),
+      ]);
+    } catch (err: any) {
+      if (signal.aborted) {
+        return;
+      }
+      this.reportError(
+        new NexusSyncError(NexusSyncErrorCode.SYNC_FAILED, {
+          operation: 'SYNC',
+          cause: err,
+          retryable: true,
+        })
+      );
+    }
+  }
+
+  /** Syncs when online, otherwise reloads what is stored locally. */
+  async refresh(): Promise<void> {
+    if (this.state.isOnline) {
+      await this.sync();
+    } else {
+      await this.loadLocalData();
+    }
+  }
+
+  /*
+			--- CRUD ---
+	*/
+  async saveItem(itemToSave: T): Promise<T> {
+    const { remoteMethods, idAttributeName, modificationDateAttributeName } =
+      this.options;
+    const item = this.remapForeignKeys(itemToSave);
+    const optimistic = this.isOptimistic('CREATE');
+    this.setState({ isLoading: true });
+    const queuedBehind = await this.isQueuedBehind(optimistic);
+
+    if (
+      !optimistic &&
+      !queuedBehind &&
+      this.state.isOnline &&
+      remoteMethods &&
+      remoteMethods.CREATE
+    ) {
+      try {
+        const createdItem = await remoteMethods.CREATE(
+          item,
+          this.abortController.signal
+        );
+        this.setState({ data: [...this.state.data, createdItem] });
+        await this.persistData();
+        return createdItem;
+      } catch (err: any) {
+        return Promise.reject(
+          this.reportError(
+            new NexusSyncError(NexusSyncErrorCode.CREATE_FAILED, {
+              operation: 'CREATE',
+              cause: err,
+              retryable: true,
+            })
+          )
+        );
+      } finally {
+        this.setState({ isLoading: false });
+      }
+    }
+
+    // ONLY SAVE IN LOCAL OFFLINE
+    if (
+      idAttributeName === undefined ||
+      modificationDateAttributeName === undefined
+    ) {
+      console.warn(
+        `WARNING NEXUSSYNC_003: No idAttributeName or modificationDateAttributeName
+						Attribute provided on hook initialization, can not create local item`
+      );
+      this.setState({ isLoading: false });
+      return Promise.reject(
+        this.reportError(
+          new NexusSyncError(NexusSyncErrorCode.MISSING_ATTRIBUTES, {
+            operation: 'CREATE',
+            cause: 'idAttributeName or modificationDateAttributeName missing',
+          })
+        )
+      );
+    }
+
+    const newItem: any = { ...item };
+    newItem[modificationDateAttributeName] = this.stampVersion(newItem);
+    newItem[idAttributeName] = createTemporaryId();
+
+    this.setState({ data: [...this.state.data, newItem] });
+    await Promise.all([
+      this.persistData(),
+      this.enqueue('CREATE', newItem[idAttributeName], newItem, optimistic),
+    ]);
+
+    this.setState({ isLoading: false });
+    if (queuedBehind) {
+      await this.flush();
+      return this.findItem(this.resolveId(newItem[idAttributeName])) ?? newItem;
+    }
+    optimistic && this.flush();
+    return newItem;
+  }
+
+  async updateItem(itemToUpdate: T): Promise<T> {
+    const { remoteMethods, idAttributeName, modificationDateAttributeName } =
+      this.options;
+
+    if (
+      idAttributeName === undefined ||
+      modificationDateAttributeName === undefined
+    ) {
+      const message = `WARNING NEXUSSYNC_006: Can not update item due to idAttributeName not provided on hook initialization`;
+      console.warn(message);
+      return Promise.reject(
+        this.reportError(
+          new NexusSyncError(NexusSyncErrorCode.MISSING_ATTRIBUTES, {
+            operation: 'UPDATE',
+            cause: message,
+          })
+        )
+      );
+    }
+
+    // The item may still carry the temporary id it was given offline
+    const itemId = this.resolveId(String(itemToUpdate?.[idAttributeName]));
+    const item: any = this.remapForeignKeys(itemToUpdate);
+    if (String(item?.[idAttributeName]) !== itemId) {
+      item[idAttributeName] = itemId;
+    }
+    const optimistic = this.isOptimistic('UPDATE');
+    this.setState({ isLoading: true });
+    const queuedBehind = await this.isQueuedBehind(optimistic);
+
+    if (
+      !optimistic &&
+      !queuedBehind &&
+      this.state.isOnline &&
+      remoteMethods &&
+      remoteMethods.UPDATE
+    ) {
+      try {
+        const updatedItem = await remoteMethods.UPDATE(
+          item,
+          this.abortController.signal
+        );
+        this.setState({
+          data: this.replaceItem(
+            String(updatedItem?.[idAttributeName]),
+            updatedItem
+          ),
+        });
+        await this.persistData();
+        return updatedItem;
+      } catch (err: any) {
+        return Promise.reject(
+          this.reportError(
+            new NexusSyncError(NexusSyncErrorCode.UPDATE_FAILED, {
+              operation: 'UPDATE',
+              itemId,
+              cause: err,
+              retryable: true,
+            })
+          )
+        );
+      } finally {
+        this.setState({ isLoading: false });
+      }
+    }
+
+    // ONLY SAVE IN LOCAL OFFLINE
+    const editedItem: any = {
+      ...item,
+    };
+    editedItem[modificationDateAttributeName] = this.stampVersion(editedItem);
+    this.captureBaseItem(itemId);
+
+    this.setState({ data: this.replaceItem(itemId, editedItem) });
+    await Promise.all([
+      this.persistData(),
+      this.persistBaseItems(),
+      this.enqueue('UPDATE', itemId, editedItem, optimistic),
+    ]);
+
+    this.setState({ isLoading: false });
+    if (queuedBehind) {
+      await this.flush();
+      return this.findItem(this.resolveId(itemId)) ?? editedItem;
+    }
+    optimistic && this.flush();
+    return editedItem;
+  }
+
+  async deleteItem(item: T): Promise<void> {
+    const { remoteMethods, idAttributeName } = this.options;
+
+    if (idAttributeName === undefined) {
+      const message = `WARNING NEXUSSYNC_001: Can not delete item due to idAttributeName not provided on hook initialization`;
+      console.warn(message);
+      this.reportError(
+        new NexusSyncError(NexusSyncErrorCode.MISSING_ATTRIBUTES, {
+          operation: 'DELETE',
+          cause: message,
+        })
+      );
+      return;
+    }
+
+    const itemId = this.resolveId(String(item?.[idAttributeName]));
+    const optimistic = this.isOptimistic('DELETE');
+    this.setState({ isLoading: true });
+    const queuedBehind = await this.isQueuedBehind(optimistic);
+
+    if (
+      !optimistic &&
+      !queuedBehind &&
+      this.state.isOnline &&
+      remoteMethods &&
+      remoteMethods.DELETE
+    ) {
+      try {
+        await remoteMethods.DELETE(itemId, this.abortController.signal);
+        this.setState({ data: this.removeItem(itemId) });
+        await this.persistData();
+        return;
+      } catch (err: any) {
+        return Promise.reject(
+          this.reportError(
+            new NexusSyncError(NexusSyncErrorCode.DELETE_FAILED, {
+              operation: 'DELETE',
+              itemId,
+              cause: err,
+              retryable: true,
+            })
+          )
+        );
+      } finally {
+        this.setState({ isLoading: false });
+      }
+    }
+
+    // ONLY IN LOCAL OFFLINE
+    // Kept to bring the item back if the remote refuses the deletion, and to
+    // tell whether the remote edited it meanwhile
+    this.captureBaseItem(itemId);
+    this.setState({
+      data: this.removeItem(itemId),
+      dataDeletedOffline: [...this.state.dataDeletedOffline, itemId],
+    });
+    await Promise.all([
+      this.persistData(),
+      this.persistDeletedOffline(),
+      this.persistBaseItems(),
+      this.enqueue('DELETE', itemId, undefined, optimistic),
+    ]);
+
+    this.setState({ isLoading: false });
+    if (queuedBehind) {
+      await this.flush();
+      return;
+    }
+    optimistic && this.flush();
+  }
+
+  /** Replaces the whole collection, as when the app sets it directly. */
+  async replaceData(data: T[]): Promise<void> {
+    this.setState({ data });
+    this.localDataLoaded = true;
+    await this.persistData();
+  }
+
+  /** Drops the pending changes and everything stored for this collection. */
+  async clearLocalData(): Promise<void> {
+    const { storage } = this.options;
+    this.cancel();
+
+    this.setState({
+      dataDeletedOffline: [],
+      numberOfChangesPending: 0,
+      isRemoteDataUptoDate: undefined,
+      recordMetadata: {},
+      pendingConflicts: [],
+    });
+    this.baseItems = {};
+    this.storedDataLocked = false;
+    await this.flushRecords().catch(() => undefined);
+    await this.writing.catch(() => undefined);
+    const recordKeys = new Set([
+      ...(await getRecordStorageKeys(storage, this.key)),
+      ...[...this.storedRecords.keys()].map((id) => getRecordKey(this.key, id)),
+    ]);
+    this.storedRecords = new Map();
+    this.storedIndex = null;
+    await this.outbox.clear();
+    await Promise.all(
+      [...getCollectionStorageKeys(this.key), ...recordKeys].map((key) =>
+        storage.removeItem(key)
+      )
+    );
+  }
+
+  /*
+			--- CONFLICTS ---
+	*/
+  /** Settles a pending delete conflict, see `NexusDeleteConflictResolver`. */
+  async resolveConflict(
+    itemId: string,
+    decision: NexusConflictDecision
+  ): Promise<void> {
+    await this.initialize();
+    const conflict = this.state.pendingConflicts.find(
+      (pendingConflict) => pendingConflict.itemId === itemId
+    );
+    if (!conflict) {
+      return;
+    }
+
+    await this.settleDeleteConflict(conflict, decision);
+    if (decision === 'KEEP_REMOTE') {
+      const data = this.removeItem(itemId);
+      this.setState({
+        data: conflict.remoteItem ? [...data, conflict.remoteItem] : data,
+      });
+    }
+    this.setState(this.getOutboxState());
+    await Promise.all([
+      this.persistData(),
+      this.persistDeletedOffline(),
+      this.persistBaseItems(),
+    ]);
+
+    if (decision === 'KEEP_LOCAL' && this.state.isOnline) {
+      await this.flush();
+    }
+  }
+
+  /*
+			--- DEAD LETTERS ---
+	*/
+  /** Puts a dead letter back in the outbox and syncs when online. */
+  async retryDeadLetter(operationId: string): Promise<void> {
+    await this.initialize();
+    await this.outbox.restoreDeadLetter(operationId);
+    this.setState(this.getOutboxState());
+
+    if (this.state.isOnline) {
+      await this.sync();
+    }
+  }
+
+  /**
+   * Gives up on a dead letter. An item that never reached the remote is
+   * dropped locally together with its later operations. The next sync is a
+   * full load, so the remote version of the item comes back.
+   */
+  async discardDeadLetter(operationId: string): Promise<void> {
+    await this.initialize();
+    const deadLetter = await this.outbox.discardDeadLetter(operationId);
+    await this.options.storage.removeItem(getCursorKey(this.key));
+
+    if (deadLetter?.type === 'CREATE') {
+      await this.outbox.removeItemOperations(deadLetter.itemId);
+      this.setState({ data: this.removeItem(deadLetter.itemId) });
+      await this.persistData();
+    }
+    this.setState(this.getOutboxState());
+    await this.persistDeletedOffline();
+  }
+
+  /*
+			--- OUTBOX ---
+	*/
+  /**
+   * Brings the stored items, the payloads of pending operations and the base
+   * versions up to the latest version of `migrations`. When a migration
+   * fails nothing is written: the stored items stay as they are, and are
+   * not overwritten, until an app update can migrate them.
+   */
+  private async migrateStoredData(): Promise<void> {
+    const { migrations = [] } = this.options;
+    let stored: NexusStoredCollection<T> | null;
+    try {
+      stored = await this.readStoredCollection();
+    } catch {
+      // Reported once loaded
+      return;
+    }
+    if (!stored || stored.version === migrations.length) {
+      return;
+    }
+
+    const { version } = stored;
+    try {
+      const migrate = (items: T[]): T[] =>
+        migrateItems(items, version, migrations);
+      const items = migrate(stored.items);
+      const baseItems: Record<string, T> = {};
+      Object.entries(this.baseItems).forEach(([itemId, baseItem]) => {
+        const [migratedItem] = migrate([baseItem]);
+        if (migratedItem !== undefined) {
+          baseItems[itemId] = migratedItem;
+        }
+      });
+      await this.outbox.mapPayloads(
+        (payload) => migrate([payload])[0] ?? payload
+      );
+
+      this.baseItems = baseItems;
+      await Promise.all([
+        this.getStorageLayout() === 'RECORDS'
+          ? this.writeRecords(items, migrations.length)
+          : this.write(this.key, serializeCollection(items, migrations.length)),
+        this.persistBaseItems(),
+      ]);
+    } catch (err: any) {
+      this.storedDataLocked = true;
+      this.reportError(
+        new NexusSyncError(NexusSyncErrorCode.MIGRATION_FAILED, {
+          operation: 'LOAD',
+          cause: err,
+        })
+      );
+    }
+  }
+
+  private async restorePendingChanges(): Promise<void> {
+    const { storage, idAttributeName } = this.options;
+
+    await registerCollectionKey(storage, this.key);
+    // Values stored in clear or with a previous key get the current one
+    if (storage instanceof EncryptedStorageAdapter) {
+      await storage.reencrypt([
+        ...getCollectionStorageKeys(this.key),
+        // An unreadable index is reported when the collection is loaded
+        ...(await getRecordStorageKeys(storage, this.key).catch(() => [])),
+      ]);
+    }
+    await this.convertStorageLayout();
+    const operations = await this.outbox.load();
+    this.baseItems = JSON.parse(
+      (await storage.getItem(getBaseKey(this.key))) ?? '{}'
+    ) as Record<string, T>;
+    this.receiveItemVersions([
+      ...[...operations, ...this.outbox.listDeadLetters()].map(
+        ({ payload }) => payload
+      ),
+      ...Object.values(this.baseItems),
+    ]);
+    this.setState({
+      recordMetadata: JSON.parse(
+        (await storage.getItem(getMetadataKey(this.key))) ?? '{}'
+      ) as Record<string, NexusRecordMetadata>,
+      pendingConflicts: JSON.parse(
+        (await storage.getItem(getConflictsKey(this.key))) ?? '[]'
+      ) as NexusDeleteConflict<T>[],
+    });
+    await this.migrateStoredData();
+
+    if (operations.length === 0) {
+      // Pending changes recorded before the outbox existed are only known
+      // through the createdOffline flag and the deleted ids list
+      const localData = this.storedDataLocked
+        ? []
+        : (await this.readStoredCollection())?.items ?? [];
+      const localDataDeletedOfflineString = await storage.getItem(
+        getDeletedKey(this.key)
+      );
+      const localDataDeletedOffline = parseCollection<string>(
+        localDataDeletedOfflineString ?? '[]'
+      ).items;
+
+      if (idAttributeName !== undefined) {
+        for (const localItem of localData) {
+          if (localItem?.createdOffline) {
+            await this.outbox.enqueue(
+              'CREATE',
+              String(localItem[idAttributeName]),
+              localItem
+            );
+          }
+        }
+      }
+      for (const deletedId of localDataDeletedOffline) {
+        await this.outbox.enqueue('DELETE', deletedId);
+      }
+    }
+
+    // Creations acknowledged before the rest of the outbox could be rewritten
+    await this.loadIdMaps();
+    const idMap = this.idMaps[this.key] ?? {};
+    for (const temporaryId of Object.keys(idMap)) {
+      if (
+        idAttributeName !== undefined &&
+        this.outbox.list().some((op) => op.itemId === temporaryId)
+      ) {
+        await this.outbox.remapItemId(
+          temporaryId,
+          idMap[temporaryId] as string,
+          idAttributeName
+        );
+      }
+    }
+    await this.outbox.mapPayloads((payload) =>
+      this.remapForeignKeys(stripLegacyFlags(payload))
+    );
+
+    this.setState(this.getOutboxState());
+  }
+
+  private async enqueue(
+    type: NexusOperationType,
+    itemId: string,
+    payload?: T,
+    optimistic?: boolean
+  ): Promise<void> {
+    if (this.options.useMethodsOnly) {
+      return;
+    }
+
+    try {
+      await this.outbox.enqueue(type, String(itemId), payload, optimistic);
+      const metadata = this.getItemSyncStatus(itemId);
+      this.setState({
+        recordMetadata: {
+          ...this.state.recordMetadata,
+          [itemId]: { ...metadata, localVersion: metadata.localVersion + 1 },
+        },
+      });
+      this.setState(this.getOutboxState());
+    } catch (err: any) {
+      this.reportError(
+        new NexusSyncError(NexusSyncErrorCode.OUTBOX_WRITE_FAILED, {
+          operation: type,
+          itemId,
+          cause: err,
+          retryable: true,
+        })
+      );
+    }
+  }
+
+  /**
+   * Replays the outbox in the order it was recorded, once the operations of
+   * each item are coalesced. An operation that can not be pushed holds back
+   * the later operations of its item only, so one bad record does not block
+   * the rest. With `BATCH`, operations of different items are sent together.
+   * Returns the operations confirmed by the remote, carrying the remote items.
+   */
+  private async pushOutbox(
+    idAttributeName: keyof T,
+    signal: AbortSignal
+  ): Promise<NexusOperation<T>[]> {
+    await this.outbox.coalesce();
+    this.setState(this.getOutboxState());
+
+    const confirmedOperations: NexusOperation<T>[] = [];
+    const visitedOperations = new Set<string>();
+    const blockedItems = new Set(
+      this.outbox.listDeadLetters().map((operation) => operation.itemId)
+    );
+    const now = Date.now();
+    // Items in conflict wait for the app to resolve it
+    this.state.pendingConflicts.forEach((conflict) =>
+      blockedItems.add(conflict.itemId)
+    );
+
+    // Operations of different items go together in a BATCH call, or run
+    // side by side up to the concurrency limit
+    const batchSize = Math.max(
+      1,
+      this.options.remoteMethods?.BATCH
+        ? this.options.batchSize ?? DEFAULT_BATCH_SIZE
+        : this.options.concurrency ?? DEFAULT_CONCURRENCY
+    );
+
+    // Next operations to send, one per item at most
+    const nextBatch = () => {
+      const batch: NexusOperation<T>[] = [];
+      const batchItems = new Set<string>();
+
+      for (const operation of this.outbox.list()) {
+        if (batch.length >= batchSize) {
+          break;
+        }
+        if (
+          visitedOperations.has(operation.id) ||
+          batchItems.has(operation.itemId)
+        ) {
+          continue;
+        }
+        // Items pointing to one created offline wait for its remote id, it
+        // may come with a later batch or with the sync of its collection
+        if (
+          hasTemporaryForeignKeys(
+            operation.payload && this.remapForeignKeys(operation.payload),
+            this.options.foreignKeys,
+            this.idMaps
+          )
+        ) {
+          batchItems.add(operation.itemId);
+          continue;
+        }
+
+        visitedOperations.add(operation.id);
+        if (
+          blockedItems.has(operation.itemId) ||
+          (operation.nextAttemptAt !== undefined &&
+            operation.nextAttemptAt > now)
+        ) {
+          blockedItems.add(operation.itemId);
+        } else {
+          batch.push(operation);
+          batchItems.add(operation.itemId);
+        }
+      }
+      return batch;
+    };
+
+    let batch = nextBatch();
+    while (batch.length > 0 && !signal.aborted) {
+      this.pushingItemIds = new Set(batch.map((operation) => operation.itemId));
+      this.setState({ recordMetadata: this.getRecordMetadata() });
+
+      const outcomes = this.options.remoteMethods?.BATCH
+        ? await this.pushBatch(batch, idAttributeName, signal)
+        : await Promise.allSettled(
+            batch.map((operation) =>
+              this.pushOperation(operation, idAttributeName, signal)
+            )
+          );
+      this.pushingItemIds = new Set();
+
+      for (const [index, operation] of batch.entries()) {
+        const outcome = outcomes[index];
+        if (outcome?.status === 'fulfilled' && outcome.value) {
+          const confirmedOperation = outcome.value;
+          confirmedOperations.push(confirmedOperation);
+          this.syncSummary && this.syncSummary.pushed++;
+          this.emit('onItemSynced', {
+            direction: 'PUSH',
+            type: confirmedOperation.type,
+            itemId: confirmedOperation.itemId,
+            item: confirmedOperation.payload,
+          });
+        } else {
+          blockedItems.add(operation.itemId);
+          // A cancelled call does not count as an attempt
+          if (outcome?.status === 'rejected' && !signal.aborted) {
+            await this.handleFailedOperation(operation, outcome.reason);
+          }
+        }
+      }
+
+      batch = nextBatch();
+    }
+
+    // A cancelled run stops here, the items it was pushing are pending again
+    if (signal.aborted) {
+      this.setState({ recordMetadata: this.getRecordMetadata() });
+    }
+    return confirmedOperations;
+  }
+
+  /**
+   * Sends one operation to the remote. Resolves with the confirmed operation,
+   * or `undefined` when no remote method is available for it.
+   */
+  private async pushOperation(
+    operation: NexusOperation<T>,
+    idAttributeName: keyof T,
+    signal: AbortSignal
+  ): Promise<NexusOperation<T> | undefined> {
+    const remoteMethods = this.options.remoteMethods;
+    const payload =
+      operation.payload === undefined
+        ? undefined
+        : this.remapForeignKeys(operation.payload);
+
+    if (operation.type === 'DELETE') {
+      if (!remoteMethods?.DELETE) {
+        return undefined;
+      }
+      await remoteMethods.DELETE(operation.itemId, signal);
+      return this.confirmOperation(operation, undefined, idAttributeName);
+    }
+
+    const patch =
+      operation.type === 'UPDATE' && payload !== undefined
+        ? this.getPatch(operation.itemId, payload)
+        : undefined;
+    if (patch && remoteMethods?.PATCH) {
+      const remoteItem = await remoteMethods.PATCH(
+        operation.itemId,
+        patch.changedFields,
+        patch.baseVersion,
+        signal
+      );
+      return this.confirmOperation(
+        operation,
+        remoteItem ?? payload,
+        idAttributeName
+      );
+    }
+
+    const remoteMethod =
+      operation.type === 'CREATE'
+        ? remoteMethods?.CREATE
+        : remoteMethods?.UPDATE;
+    if (!remoteMethod || payload === undefined) {
+      return undefined;
+    }
+    const remoteItem = await remoteMethod(payload, signal);
+    return this.confirmOperation(operation, remoteItem, idAttributeName);
+  }
+
+  /**
+   * Fields of an edited item changed since its last synced version, with
+   * that version. `undefined` when the synced version is not known.
+   */
+  private getPatch(
+    itemId: string,
+    item: T
+  ): { changedFields: Partial<T>; baseVersion: unknown } | undefined {
+    const baseItem = this.baseItems[itemId];
+    const { modificationDateAttributeName } = this.options;
+    if (baseItem === undefined) {
+      return undefined;
+    }
+    return {
+      changedFields: getChangedFields(baseItem, item),
+      baseVersion:
+        modificationDateAttributeName === undefined
+          ? undefined
+          : baseItem[modificationDateAttributeName],
+    };
+  }
+
+  /**
+   * Sends operations of different items in one `BATCH` call. Resolves with
+   * the outcome of each operation, in order.
+   */
+  private async pushBatch(
+    operations: NexusOperation<T>[],
+    idAttributeName: keyof T,
+    signal: AbortSignal
+  ): Promise<PromiseSettledResult<NexusOperation<T> | undefined>[]> {
+    const BATCH = this.options.remoteMethods?.BATCH;
+    if (!BATCH) {
+      return operations.map(() => ({ status: 'fulfilled', value: undefined }));
+    }
+
+    let results: NexusBatchResult<T>[];
+    try {
+      results = await BATCH(
+        operations.map((operation) => {
+          const item =
+            operation.payload === undefined
+              ? undefined
+              : this.remapForeignKeys(operation.payload);
+          const patch =
+            operation.type === 'UPDATE' && item !== undefined
+              ? this.getPatch(operation.itemId, item)
+              : undefined;
+          return {
+            type: operation.type,
+            itemId: operation.itemId,
+            item,
+            ...patch,
+          };
+        }),
+        signal
+      );
+    } catch (err: any) {
+      return operations.map(() => ({ status: 'rejected', reason: err }));
+    }
+
+    const outcomes: PromiseSettledResult<NexusOperation<T> | undefined>[] = [];
+    for (const [index, operation] of operations.entries()) {
+      const result = results[index];
+      if (!result?.ok) {
+        outcomes.push({
+          status: 'rejected',
+          reason: result ? result.error : 'No result returned by BATCH',
+        });
+        continue;
+      }
+      try {
+        outcomes.push({
+          status: 'fulfilled',
+          value: await this.confirmOperation(
+            operation,
+            operation.type === 'DELETE'
+              ? undefined
+              : result.item ?? operation.payload,
+            idAttributeName
+          ),
+        });
+      } catch (err: any) {
+        outcomes.push({ status: 'rejected', reason: err });
+      }
+    }
+    return outcomes;
+  }
+
+  /**
+   * Removes an operation the remote accepted from the outbox. A creation
+   * moves the item to the id the remote gave it.
+   */
+  private async confirmOperation(
+    operation: NexusOperation<T>,
+    remoteItem: T | undefined,
+    idAttributeName: keyof T
+  ): Promise<NexusOperation<T>> {
+    if (operation.type === 'CREATE') {
+      const remoteId = String(remoteItem?.[idAttributeName]);
+      // An id the remote already assigned is never mapped again
+      const knownRemoteIds = new Set(
+        Object.values(this.idMaps[this.key] ?? {})
+      );
+      if (
+        remoteId !== operation.itemId &&
+        !knownRemoteIds.has(operation.itemId)
+      ) {
+        await this.outbox.remapItemId(
+          operation.itemId,
+          remoteId,
+          idAttributeName,
+          operation
+        );
+        await this.recordIdRemap(operation.itemId, remoteId);
+      }
+      await this.outbox.remove(operation.id);
+      return { ...operation, itemId: remoteId, payload: remoteItem };
+    }
+
+    await this.outbox.remove(operation.id);
+    if (operation.type === 'DELETE') {
+      return operation;
+    }
+
+    // Later edits of the item are diffed against this version
+    if (remoteItem !== undefined && this.baseItems[operation.itemId]) {
+      this.baseItems[operation.itemId] = remoteItem;
+    }
+    return { ...operation, payload: remoteItem };
+  }
+
+  /**
+   * Schedules the next attempt of a failed operation with exponential
+   * backoff, or moves it to the dead letters once it ran out of attempts.
+   */
+  private async handleFailedOperation(
+    operation: NexusOperation<T>,
+    err: any
+  ): Promise<void> {
+    const retryPolicy: NexusRetryPolicy = {
+      ...DEFAULT_RETRY_POLICY,
+      ...this.options.retryPolicy,
+    };
+    const attempt = operation.attempts + 1;
+
+    this.options.consoleDebug &&
+      console.log(`err C|=========>`, JSON.stringify(err));
+    const rollback =
+      operation.optimistic &&
+      (this.options.optimisticFailure ?? 'ROLLBACK') === 'ROLLBACK';
+    const exhausted = rollback || attempt >= retryPolicy.maxAttempts;
+    this.syncSummary && this.syncSummary.failed++;
+    const { message } = this.reportError(
+      new NexusSyncError(
+        operation.type === 'DELETE'
+          ? NexusSyncErrorCode.PUSH_DELETE_FAILED
+          : operation.type === 'CREATE'
+          ? NexusSyncErrorCode.PUSH_CREATE_FAILED
+          : NexusSyncErrorCode.PUSH_UPDATE_FAILED,
+        {
+          operation: operation.type,
+          itemId: operation.itemId,
+          cause: err,
+          retryable: !exhausted,
+        }
+      )
+    );
+
+    if (rollback) {
+      await this.rollback(operation.itemId);
+    } else if (exhausted) {
+      await this.outbox.moveToDeadLetters(operation.id, message);
+    } else {
+      await this.outbox.markAttempt(
+        operation.id,
+        message,
+        Date.now() + getRetryDelay(attempt, retryPolicy)
+      );
+    }
+  }
+
+  /**
+   * Undoes the local changes of an item after the remote refused one of them,
+   * bringing back its last synced version.
+   */
+  private async rollback(itemId: string): Promise<void> {
+    const idAttributeName = this.options.idAttributeName;
+    const baseItem = this.baseItems[itemId];
+    delete this.baseItems[itemId];
+    await this.outbox.removeItemOperations(itemId);
+
+    let data = this.removeItem(itemId);
+    if (baseItem !== undefined && idAttributeName !== undefined) {
+      const index = this.state.data.findIndex(
+        (item) => String(item?.[idAttributeName]) === itemId
+      );
+      data =
+        index === -1
+          ? [...data, baseItem]
+          : this.state.data.map((item, i) => (i === index ? baseItem : item));
+    }
+    this.setState({ data, ...this.getOutboxState() });
+  }
+
+  /**
+   * Restarts the countdown to the next periodic sync. Polling runs while the
+   * app is active and online, and something is subscribed to the engine.
+   */
+  private schedulePoll(): void {
+    clearTimeout(this.pollTimer);
+    this.pollTimer = undefined;
+    const { syncInterval } = this.options;
+    if (
+      !syncInterval ||
+      !this.isActive ||
+      !this.state.isOnline ||
+      this.listeners.size === 0
+    ) {
+      return;
+    }
+
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = undefined;
+      this.sync();
+    }, syncInterval);
+  }
+
+  /** Runs a sync again when the earliest postponed operation is due. */
+  private scheduleRetry(): void {
+    clearTimeout(this.retryTimer);
+    this.retryTimer = undefined;
+
+    const attemptTimes = this.outbox
+      .list()
+      .map((operation) => operation.nextAttemptAt)
+      .filter((time): time is number => time !== undefined);
+    if (attemptTimes.length === 0) {
+      return;
+    }
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.state.isOnline && this.sync();
+    }, Math.max(0, Math.min(...attemptTimes) - Date.now()));
+  }
+
+  /** Whether `item` belongs to the `scope` synced, unknown items do. */
+  private isInScope(item: T | undefined): boolean {
+    const { scope, scopeMatcher = matchesScope } = this.options;
+    return (
+      scope === undefined || item === undefined || scopeMatcher(item, scope)
+    );
+  }
+
+  /**
+   * The collection as last seen from the remote, the base of a delta sync.
+   * Items still known by the temporary id they were created with are left
+   * out, they come back with their remote id.
+   */
+  private getKnownRemoteData(idAttributeName: keyof T): T[] {
+    const idMap = this.idMaps[this.key] ?? {};
+    return this.state.data.filter(
+      (item) => idMap[String(item?.[idAttributeName])] === undefined
+    );
+  }
+
+  /** Dead letters and pending operations, in the order they were recorded. */
+  private getUnconfirmedOperations(): NexusOperation<T>[] {
+    return [...this.outbox.listDeadLetters(), ...this.outbox.list()].sort(
+      (a, b) => a.timestamp - b.timestamp
+    );
+  }
+
+  private getOutboxState(): Partial<NexusSyncState<T>> {
+    const unconfirmedOperations = this.getUnconfirmedOperations();
+    return {
+      dataDeletedOffline: getDeletedIds(unconfirmedOperations),
+      deadLetters: this.outbox.listDeadLetters(),
+      isRemoteDataUptoDate: unconfirmedOperations.length === 0,
+      numberOfChangesPending: unconfirmedOperations.length,
+      recordMetadata: this.getRecordMetadata(),
+    };
+  }
+
+  /** Record metadata brought in line with the outbox. */
+  private getRecordMetadata(): Record<string, NexusRecordMetadata> {
+    const operations = this.outbox.list();
+    const deadLetters = this.outbox.listDeadLetters();
+    const itemIds = new Set([
+      ...Object.keys(this.state.recordMetadata),
+      ...operations.map((operation) => operation.itemId),
+      ...deadLetters.map((operation) => operation.itemId),
+    ]);
+
+    const recordMetadata: Record<string, NexusRecordMetadata> = {};
+    itemIds.forEach((itemId) => {
+      recordMetadata[itemId] = {
+        ...(this.state.recordMetadata[itemId] ?? SYNCED_RECORD),
+        ...getRecordSyncState(
+          operations.filter((operation) => operation.itemId === itemId),
+          deadLetters.filter((operation) => operation.itemId === itemId)
+        ),
+        isSyncing: this.pushingItemIds.has(itemId),
+      };
+    });
+    return recordMetadata;
+  }
+
+  /**
+   * Stamps the records known equal on both sides and forgets the ones gone
+   * from the collection for good.
+   */
+  private settleRecordMetadata(syncedIds: string[]): void {
+    const idAttributeName = this.options.idAttributeName;
+    if (idAttributeName === undefined) {
+      return;
+    }
+
+    const recordMetadata = this.getRecordMetadata();
+    const lastSyncedAt = Date.now();
+    syncedIds.forEach((itemId) => {
+      const metadata = recordMetadata[itemId] ?? SYNCED_RECORD;
+      if (metadata.syncState === 'SYNCED') {
+        recordMetadata[itemId] = { ...metadata, lastSyncedAt };
+      }
+    });
+
+    const currentIds = new Set(
+      this.state.data.map((item) => String(item?.[idAttributeName]))
+    );
+    Object.keys(recordMetadata).forEach((itemId) => {
+      if (
+        !currentIds.has(itemId) &&
+        recordMetadata[itemId]?.syncState === 'SYNCED'
+      ) {
+        delete recordMetadata[itemId];
+      }
+    });
+    this.setState({ recordMetadata });
+  }
+
+  /**
+   * Whether a change made online has to wait for the changes still queued,
+   * so the remote gets them in the order they were made.
+   */
+  private async isQueuedBehind(optimistic: boolean): Promise<boolean> {
+    if (
+      optimistic ||
+      !this.state.isOnline ||
+      this.options.useMethodsOnly ||
+      this.options.idAttributeName === undefined ||
+      this.options.modificationDateAttributeName === undefined
+    ) {
+      return false;
+    }
+    await this.initialize();
+    return this.outbox.size > 0;
+  }
+
+  private findItem(id: string): T | undefined {
+    const idAttributeName = this.options.idAttributeName;
+    return idAttributeName === undefined
+      ? undefined
+      : this.state.data.find((item) => String(item?.[idAttributeName]) === id);
+  }
+
+  /** Whether a change is shown first and sent to the remote afterwards. */
+  private isOptimistic(type: NexusOperationType): boolean {
+    const { optimistic, remoteMethods, idAttributeName } = this.options;
+    return (
+      !!optimistic &&
+      !!this.state.isOnline &&
+      idAttributeName !== undefined &&
+      remoteMethods?.[type] !== undefined
+    );
+  }
+
+  private exclusive(task: () => Promise<void>): Promise<void> {
+    const run = this.running.catch(() => undefined).then(task);
+    this.running = run;
+    return run;
+  }
+
+  /*
+			--- ID REMAPPING ---
+	*/
+  private async recordIdRemap(
+    temporaryId: string,
+    remoteId: string
+  ): Promise<void> {
+    this.idMaps[this.key] = {
+      ...this.idMaps[this.key],
+      [temporaryId]: remoteId,
+    };
+    const { [temporaryId]: metadata, ...recordMetadata } =
+      this.state.recordMetadata;
+    if (metadata !== undefined) {
+      this.setState({
+        recordMetadata: { ...recordMetadata, [remoteId]: metadata },
+      });
+    }
+    await this.write(
+      getIdMapKey(this.key),
+      JSON.stringify(this.idMaps[this.key])
+    );
+    publishIdRemap(this.key, temporaryId, remoteId);
+  }
+
+  /**
+   * Rewrites the local items and pending operations pointing to an item of
+   * another collection (or this one) that just got its remote id.
+   */
+  private async applyIdRemap(
+    async_DATA_KEY: string,
+    temporaryId: string,
+    remoteId: string
+  ): Promise<void> {
+    this.idMaps[async_DATA_KEY] = {
+      ...this.idMaps[async_DATA_KEY],
+      [temporaryId]: remoteId,
+    };
+
+    const isReferenced = Object.values(this.options.foreignKeys ?? {}).some(
+      (referencedKey) => referencedKey === async_DATA_KEY
+    );
+    if (!isReferenced) {
+      return;
+    }
+
+    const data = this.state.data.map((item) => this.remapForeignKeys(item));
+    if (data.some((item, index) => item !== this.state.data[index])) {
+      this.setState({ data });
+      await this.persistData();
+    }
+    await this.outbox.mapPayloads((payload) => this.remapForeignKeys(payload));
+  }
+
+  /** Reads the id maps of this collection and the referenced ones. */
+  private async loadIdMaps(): Promise<void> {
+    const collectionKeys = new Set([
+      this.key,
+      ...(Object.values(this.options.foreignKeys ?? {}) as string[]),
+    ]);
+
+    await Promise.all(
+      [...collectionKeys].map(async (async_DATA_KEY) => {
+        const idMap = await loadIdMap(this.options.storage, async_DATA_KEY);
+        this.idMaps[async_DATA_KEY] = {
+          ...idMap,
+          ...this.idMaps[async_DATA_KEY],
+        };
+      })
+    );
+  }
+
+  private remapForeignKeys(item: T): T {
+    return remapForeignKeys(item, this.options.foreignKeys, this.idMaps);
+  }
+
+  /*
+			--- CONFLICTS ---
+	*/
+  /**
+   * Runs the conflict resolver for every item with pending edits that also
+   * changed on the remote since it was last synced, and rewrites the outbox
+   * with the outcome.
+   */
+  private async resolveConflicts(
+    remoteData: T[],
+    idAttributeName: keyof T
+  ): Promise<void> {
+    const conflictResolver: NexusConflictResolver<T> =
+      this.options.conflictResolver ?? clientWins;
+    const pendingOperations = this.outbox.list();
+    const editedIds = new Set(
+      pendingOperations
+        .filter((operation) => operation.type === 'UPDATE')
+        .map((operation) => operation.itemId)
+    );
+
+    for (const itemId of editedIds) {
+      const itemOperations = pendingOperations.filter(
+        (operation) => operation.itemId === itemId
+      );
+      // Items created or deleted locally can not conflict with an edit
+      if (itemOperations.some((operation) => operation.type !== 'UPDATE')) {
+        continue;
+      }
+
+      const localItem = itemOperations[itemOperations.length - 1]?.payload;
+      const remoteItem = remoteData.find(
+        (item) => String(item?.[idAttributeName]) === itemId
+      );
+      const baseItem = this.baseItems[itemId];
+      if (
+        localItem === undefined ||
+        remoteItem === undefined ||
+        isDeepEqual(localItem, remoteItem) ||
+        (baseItem !== undefined && isDeepEqual(baseItem, remoteItem))
+      ) {
+        continue;
+      }
+
+      const resolution = conflictResolver(localItem, remoteItem, baseItem, {
+        idAttributeName,
+        modificationDateAttributeName:
+          this.options.modificationDateAttributeName,
+        versioning: this.options.versioning,
+      });
+
+      if (resolution === 'KEEP_REMOTE') {
+        await this.outbox.resolveUpdates(itemId, null);
+        delete this.baseItems[itemId];
+      } else if (resolution !== 'KEEP_LOCAL') {
+        // The merged item already accounts for the remote changes
+        await this.outbox.resolveUpdates(itemId, resolution);
+        this.baseItems[itemId] = remoteItem;
+      }
+
+      this.syncSummary && this.syncSummary.conflicts++;
+      this.emit('onConflict', {
+        itemId,
+        localItem,
+        remoteItem,
+        baseItem,
+        resolution,
+      });
+    }
+  }
+
+  /**
+   * Finds the records deleted on one side and still changed on the other.
+   * Each conflict goes to `deleteConflictResolver`, and stays pending when it
+   * does not settle it.
+   */
+  private async detectDeleteConflicts(
+    remoteSnapshot: NexusRemoteSnapshot<T>,
+    idAttributeName: keyof T
+  ): Promise<void> {
+    const remoteItems = new Map(
+      remoteSnapshot.changed.map((item) => [
+        String(item?.[idAttributeName]),
+        item,
+      ])
+    );
+    const remotelyDeletedIds = new Set(remoteSnapshot.deleted.map(String));
+    const conflictedIds = new Set(
+      this.state.pendingConflicts.map((conflict) => conflict.itemId)
+    );
+    const itemsOperations = new Map<string, NexusOperation<T>[]>();
+    this.outbox.list().forEach((operation) => {
+      itemsOperations.set(operation.itemId, [
+        ...(itemsOperations.get(operation.itemId) ?? []),
+        operation,
+      ]);
+    });
+
+    const newConflicts: NexusDeleteConflict<T>[] = [];
+    for (const [itemId, operations] of itemsOperations) {
+      // Items created locally are not known by the remote yet
+      if (
+        conflictedIds.has(itemId) ||
+        operations.some((operation) => operation.type === 'CREATE')
+      ) {
+        continue;
+      }
+
+      const lastOperation = operations[operations.length - 1];
+      const remoteItem = remoteItems.get(itemId);
+      const baseItem = this.baseItems[itemId];
+      // Items outside the scope are missing from a full snapshot
+      const deletedRemotely = remoteSnapshot.full
+        ? remoteItem === undefined &&
+          this.isInScope(baseItem ?? lastOperation?.payload)
+        : remotelyDeletedIds.has(itemId);
+
+      let conflict: NexusDeleteConflict<T>;
+      if (deletedRemotely && lastOperation?.type === 'DELETE') {
+        // Deleted on both sides, nothing is left to push
+        await this.outbox.removeItemOperations(itemId);
+        delete this.baseItems[itemId];
+        continue;
+      } else if (deletedRemotely) {
+        conflict = {
+          type: 'DELETED_REMOTELY',
+          itemId,
+          localItem: lastOperation?.payload,
+          detectedAt: Date.now(),
+        };
+      } else if (
+        lastOperation?.type === 'DELETE' &&
+        remoteItem !== undefined &&
+        baseItem !== undefined &&
+        !isDeepEqual(baseItem, remoteItem)
+      ) {
+        conflict = {
+          type: 'DELETED_LOCALLY',
+          itemId,
+          remoteItem,
+          detectedAt: Date.now(),
+        };
+      } else {
+        continue;
+      }
+
+      this.syncSummary && this.syncSummary.conflicts++;
+      const decision = this.options.deleteConflictResolver?.(conflict);
+      if (decision) {
+        await this.settleDeleteConflict(conflict, decision);
+      } else {
+        newConflicts.push(conflict);
+      }
+    }
+
+    if (newConflicts.length > 0) {
+      this.setState({
+        pendingConflicts: [...this.state.pendingConflicts, ...newConflicts],
+      });
+      await this.persistConflicts();
+    }
+  }
+
+  /**
+   * Rewrites the pending operations of a record in conflict to follow the
+   * decision, the data itself is left to the caller.
+   */
+  private async settleDeleteConflict(
+    conflict: NexusDeleteConflict<T>,
+    decision: NexusConflictDecision
+  ): Promise<void> {
+    const { itemId } = conflict;
+    const operations = this.outbox
+      .list()
+      .filter((operation) => operation.itemId === itemId);
+    const localItem =
+      operations[operations.length - 1]?.payload ?? conflict.localItem;
+
+    if (decision === 'KEEP_LOCAL' && conflict.type === 'DELETED_LOCALLY') {
+      // The deletion is pushed as it is, over the remote version seen here
+      if (conflict.remoteItem !== undefined) {
+        this.baseItems[itemId] = conflict.remoteItem;
+      }
+    } else {
+      await this.outbox.removeItemOperations(itemId);
+      delete this.baseItems[itemId];
+      // Restored on the remote by creating it again
+      if (decision === 'KEEP_LOCAL' && localItem !== undefined) {
+        await this.outbox.enqueue('CREATE', itemId, localItem);
+      }
+    }
+
+    if (
+      this.state.pendingConflicts.some(
+        (pendingConflict) => pendingConflict.itemId === itemId
+      )
+    ) {
+      this.setState({
+        pendingConflicts: this.state.pendingConflicts.filter(
+          (pendingConflict) => pendingConflict.itemId !== itemId
+        ),
+      });
+      await this.persistConflicts();
+    }
+  }
+
+  private captureBaseItem(itemId: string): void {
+    const idAttributeName = this.options.idAttributeName;
+    const createdLocally = this.outbox
+      .list()
+      .some(
+        (operation) =>
+          operation.itemId === itemId && operation.type === 'CREATE'
+      );
+    if (
+      idAttributeName === undefined ||
+      createdLocally ||
+      this.baseItems[itemId] !== undefined
+    ) {
+      return;
+    }
+
+    const currentItem = this.state.data.find(
+      (item) => String(item?.[idAttributeName]) === itemId
+    );
+    if (currentItem !== undefined) {
+      this.baseItems[itemId] = currentItem;
+    }
+  }
+
+  /**
+   * Items without pending operations no longer need a base version, the
+   * others move their base to the last version confirmed by the remote.
+   */
+  private settleBaseItems(
+    confirmedOperations: NexusOperation<T>[],
+    pendingOperations: NexusOperation<T>[]
+  ): void {
+    const pendingIds = new Set(
+      pendingOperations.map((operation) => operation.itemId)
+    );
+
+    confirmedOperations.forEach((operation) => {
+      if (operation.payload !== undefined && pendingIds.has(operation.itemId)) {
+        this.baseItems[operation.itemId] = operation.payload;
+      }
+    });
+    Object.keys(this.baseItems).forEach((itemId) => {
+      if (!pendingIds.has(itemId)) {
+        delete this.baseItems[itemId];
+      }
+    });
+  }
+
+  /*
+			--- HELPERS ---
+	*/
+  /** Version stamped on a local change, see `versioning`. */
+  private stampVersion(item: T): unknown {
+    const { modificationDateAttributeName, versioning } = this.options;
+    return this.clock.stamp(
+      versioning ?? DEFAULT_VERSIONING,
+      modificationDateAttributeName === undefined
+        ? undefined
+        : item?.[modificationDateAttributeName]
+    );
+  }
+
+  /** Follows the clock of the remote and the versions it holds. */
+  private receiveVersions(snapshot: NexusRemoteSnapshot<T>): void {
+    if (snapshot.serverTime !== undefined) {
+      this.clock.setServerTime(snapshot.serverTime);
+    }
+    this.receiveItemVersions(snapshot.changed);
+  }
+
+  /**
+   * Moves the logical clock past the versions of `items`. The clock lives in
+   * memory only, stored versions have to be read back after a restart so
+   * that new changes are not stamped older than them.
+   */
+  private receiveItemVersions(items: (T | undefined)[]): void {
+    const { modificationDateAttributeName, versioning } = this.options;
+    if (versioning === 'HLC' && modificationDateAttributeName !== undefined) {
+      items.forEach((item) =>
+        this.clock.receive(item?.[modificationDateAttributeName])
+      );
+    }
+  }
+
+  private replaceItem(id: string, newItem: T): T[] {
+    const idAttributeName = this.options.idAttributeName;
+    return this.state.data.map((item) => {
+      if (
+        idAttributeName !== undefined &&
+        String(item?.[idAttributeName]) === id
+      ) {
+        const replacedItem: any = { ...newItem };
+        replacedItem[idAttributeName] = id;
+        return replacedItem;
+      }
+      return item;
+    });
+  }
+
+  private removeItem(id: string): T[] {
+    const idAttributeName = this.options.idAttributeName;
+    if (idAttributeName === undefined) {
+      return this.state.data;
+    }
+    return this.state.data.filter(
+      (item) => String(item?.[idAttributeName]) !== id
+    );
+  }
+
+  /** Writes the collection along with the metadata of its records. */
+  private persistData(): Promise<void> {
+    return Promise.all([
+      this.storedDataLocked
+        ? Promise.resolve()
+        : this.getStorageLayout() === 'RECORDS'
+        ? this.persistRecords()
+        : this.write(
+            this.key,
+            serializeCollection(
+              this.state.data,
+              this.options.migrations?.length ?? 0
+            )
+          ),
+      this.write(
+        getMetadataKey(this.key),
+        JSON.stringify(this.state.recordMetadata)
+      ),
+    ]).then(() => undefined);
+  }
+
+  private persistDeletedOffline(): Promise<void> {
+    return this.write(
+      getDeletedKey(this.key),
+      serializeCollection(
+        this.state.dataDeletedOffline,
+        this.options.migrations?.length ?? 0
+      )
+    );
+  }
+
+  private persistConflicts(): Promise<void> {
+    return this.write(
+      getConflictsKey(this.key),
+      JSON.stringify(this.state.pendingConflicts)
+    );
+  }
+
+  private persistBaseItems(): Promise<void> {
+    return this.write(getBaseKey(this.key), JSON.stringify(this.baseItems));
+  }
+
+  /**
+   * Writes the records after `writeDelay`, once changes stop coming. Calls
+   * made meanwhile share the write.
+   */
+  private persistRecords(): Promise<void> {
+    clearTimeout(this.recordsTimer);
+    if (!this.pendingRecords) {
+      let start!: () => void;
+      const started = new Promise<void>((resolve) => {
+        start = resolve;
+      });
+      this.pendingRecords = {
+        start,
+        done: started
+          .then(() => {
+            // Changes made from now on need another write
+            this.pendingRecords = null;
+            return this.initialize();
+          })
+          .then(() => this.readStoredIds())
+          .then(() =>
+            this.writeRecords(
+              this.state.data,
+              this.options.migrations?.length ?? 0
+            )
+          ),
+      };
+    }
+    this.recordsTimer = setTimeout(
+      this.pendingRecords.start,
+      this.options.writeDelay ?? DEFAULT_WRITE_DELAY
+    );
+    return this.pendingRecords.done;
+  }
+
+  /** Starts the debounced write of the records, if any, right away. */
+  private flushRecords(): Promise<void> {
+    clearTimeout(this.recordsTimer);
+    if (!this.pendingRecords) {
+      return Promise.resolve();
+    }
+    this.pendingRecords.start();
+    return this.pendingRecords.done;
+  }
+
+  /**
+   * Writes the records that changed since they were stored, then the index,
+   * then removes the records no longer listed.
+   */
+  private writeRecords(items: T[], version: number): Promise<void> {
+    const idAttributeName = this.options.idAttributeName as keyof T;
+    const records = new Map<string, string>();
+    items.forEach((item) => {
+      records.set(String(item?.[idAttributeName]), JSON.stringify(item));
+    });
+
+    const writes: Promise<void>[] = [];
+    records.forEach((value, id) => {
+      if (this.storedRecords.get(id) !== value) {
+        writes.push(
+          this.write(getRecordKey(this.key, id), value).then(() => {
+            this.storedRecords.set(id, value);
+          })
+        );
+      }
+    });
+    const index = serializeIndex([...records.keys()], version);
+    if (index !== this.storedIndex) {
+      writes.push(
+        this.write(getIndexKey(this.key), index).then(() => {
+          this.storedIndex = index;
+        })
+      );
+    }
+    [...this.storedRecords.keys()]
+      .filter((id) => !records.has(id))
+      .forEach((id) => {
+        writes.push(
+          this.remove(getRecordKey(this.key, id)).then(() => {
+            this.storedRecords.delete(id);
+          })
+        );
+      });
+    return Promise.all(writes).then(() => undefined);
+  }
+
+  /**
+   * Lists the records stored before anything was read, so the ones no longer
+   * in the collection are removed. Their content is unknown, they are all
+   * written again.
+   */
+  private async readStoredIds(): Promise<void> {
+    if (this.storedIndex !== null) {
+      return;
+    }
+    try {
+      const indexString = await this.options.storage.getItem(
+        getIndexKey(this.key)
+      );
+      if (indexString !== null) {
+        parseIndex(indexString).ids.forEach((id) => {
+          if (!this.storedRecords.has(id)) {
+            this.storedRecords.set(id, '');
+          }
+        });
+      }
+    } catch {
+      // Records left behind are only wasted space
+    }
+  }
+
+  private getStorageLayout(): NexusStorageLayout {
+    // Records are stored by id
+    return this.options.idAttributeName === undefined
+      ? 'COLLECTION'
+      : this.options.storageLayout ?? DEFAULT_STORAGE_LAYOUT;
+  }
+
+  /**
+   * Reads the stored collection with `layout`, null when nothing is stored.
+   * Throws `LOCAL_READ_FAILED` or `LOCAL_DATA_CORRUPTED`.
+   */
+  private async readStoredCollection(
+    layout = this.getStorageLayout()
+  ): Promise<NexusStoredCollection<T> | null> {
+    const { storage, loadChunkSize = DEFAULT_LOAD_CHUNK_SIZE } = this.options;
+    const read = <R>(reader: () => Promise<R>): Promise<R> =>
+      reader().catch((err: any) => {
+        throw new NexusSyncError(NexusSyncErrorCode.LOCAL_READ_FAILED, {
+          operation: 'LOAD',
+          cause: err,
+          retryable: true,
+        });
+      });
+    const parse = <R>(parser: () => R): R => {
+      try {
+        return parser();
+      } catch (err: any) {
+        throw new NexusSyncError(NexusSyncErrorCode.LOCAL_DATA_CORRUPTED, {
+          operation: 'LOAD',
+          cause: err,
+        });
+      }
+    };
+
+    if (layout === 'COLLECTION') {
+      const storedString = await read(() => storage.getItem(this.key));
+      return storedString === null
+        ? null
+        : parse(() => parseCollection<T>(storedString));
+    }
+
+    const indexString = await read(() =>
+      storage.getItem(getIndexKey(this.key))
+    );
+    if (indexString === null) {
+      return null;
+    }
+    const { version, ids } = parse(() => parseIndex(indexString));
+    const records = await read(() =>
+      readRecords(storage, this.key, ids, loadChunkSize)
+    );
+    const items = parse(() =>
+      [...records.values()].map((value) => JSON.parse(value) as T)
+    );
+    this.storedRecords = records;
+    this.storedIndex = indexString;
+    return { version, items };
+  }
+
+  /**
+   * Moves a collection stored with the other layout, before `storageLayout`
+   * changed, to the current one.
+   */
+  private async convertStorageLayout(): Promise<void> {
+    const { storage } = this.options;
+    const layout = this.getStorageLayout();
+    const [storedString, indexString] = await Promise.all([
+      storage.getItem(this.key),
+      storage.getItem(getIndexKey(this.key)),
+    ]);
+
+    if (layout === 'RECORDS' && storedString !== null && indexString === null) {
+      const { version, items } = parseCollection<T>(storedString);
+      await this.writeRecords(items, version);
+      await this.remove(this.key);
+    } else if (
+      layout === 'COLLECTION' &&
+      indexString !== null &&
+      storedString === null
+    ) {
+      const stored = await this.readStoredCollection('RECORDS');
+      if (stored) {
+        await this.write(
+          this.key,
+          serializeCollection(stored.items, stored.version)
+        );
+      }
+      const recordKeys = [...this.storedRecords.keys()].map((id) =>
+        getRecordKey(this.key, id)
+      );
+      await Promise.all(
+        [getIndexKey(this.key), ...recordKeys].map((key) => this.remove(key))
+      );
+      this.storedRecords = new Map();
+      this.storedIndex = null;
+    }
+  }
+
+  private write(key: string, value: string): Promise<void> {
+    if (this.options.useMethodsOnly) {
+      return Promise.resolve();
+    }
+
+    // Writes are chained so an older snapshot never overwrites a newer one
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(() => this.options.storage.setItem(key, value));
+    return this.writing;
+  }
+
+  private remove(key: string): Promise<void> {
+    if (this.options.useMethodsOnly) {
+      return Promise.resolve();
+    }
+
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(() => this.options.storage.removeItem(key));
+    return this.writing;
+  }
+
+  private reportError(error: NexusSyncError): NexusSyncError {
+    this.setState({
+      error,
+      errors: [...this.state.errors, error].slice(-MAX_ERRORS),
+    });
+    try {
+      this.options.onError?.(error);
+    } catch (err: any) {
+      this.options.consoleDebug && console.warn(err);
+    }
+    return error;
+  }
+
+  /** Calls an event callback, a throwing callback does not break the sync. */
+  private emit<E extends keyof NexusSyncEvents<T>>(
+    event: E,
+    ...args: Parameters<NonNullable<NexusSyncEvents<T>[E]>>
+  ): void {
+    try {
+      (this.options[event] as ((...a: typeof args) => void) | undefined)?.(
+        ...args
+      );
+    } catch (err: any) {
+      this.options.consoleDebug && console.warn(err);
+    }
+  }
+
+  private setState(partialState: Partial<NexusSyncState<T>>): void {
+    this.state = { ...this.state, ...partialState };
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+}
+
+const getDeletedIds = <T extends NexusGenericPrimaryType>(
+  operations: NexusOperation<T>[]
+) =>
+  operations
+    .filter((operation) => operation.type === 'DELETE')
+    .map((operation) => operation.itemId);
+
+/**
+ * Removes every collection registered under `NEXUSSYNC_KEYS`. The indexes of
+ * collections stored record by record are read with `encryption`, if they
+ * were written with it. A collection whose index can not be read is kept
+ * whole, so that its records can still be found, and the returned promise
+ * rejects once the other collections are removed.
+ */
+export async function deleteAllLocalSavedData(
+  storage: NexusStorageAdapter,
+  encryption?: NexusEncryptionOptions
+): Promise<void> {
+  const indexStorage = encryption
+    ? new EncryptedStorageAdapter(storage, encryption)
+    : storage;
+  const localKeys = await getRegisteredCollectionKeys(storage);
+
+  const results = await Promise.allSettled(
+    localKeys.map(async (localKey) => {
+      const recordKeys = await getRecordStorageKeys(indexStorage, localKey);
+      await Promise.all(
+        [...getCollectionStorageKeys(localKey), ...recordKeys].map((key) =>
+          storage.removeItem(key)
+        )
+      );
+    })
+  );
+  const failure = results.find(
+    (result): result is PromiseRejectedResult => result.status === 'rejected'
+  );
+  if (failure) {
+    throw failure.reason;
+  }
+}
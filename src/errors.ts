@@ -0,0 +1,66 @@
+import type { NexusOperationType } from './outbox';
+
+export enum NexusSyncErrorCode {
+  LOCAL_DATA_CORRUPTED = 'NEXUSSYNC_001',
+  LOCAL_READ_FAILED = 'NEXUSSYNC_002',
+  SYNC_FAILED = 'NEXUSSYNC_003',
+  MIGRATION_FAILED = 'NEXUSSYNC_004',
+  MISSING_ATTRIBUTES = 'NEXUSSYNC_010',
+  CREATE_FAILED = 'NEXUSSYNC_011',
+  UPDATE_FAILED = 'NEXUSSYNC_012',
+  DELETE_FAILED = 'NEXUSSYNC_013',
+  RESTORE_FAILED = 'NEXUSSYNC_014',
+  OUTBOX_WRITE_FAILED = 'NEXUSSYNC_015',
+  ID_REMAP_FAILED = 'NEXUSSYNC_016',
+  PUSH_DELETE_FAILED = 'NEXUSSYNC_020',
+  PUSH_CREATE_FAILED = 'NEXUSSYNC_021',
+  PUSH_UPDATE_FAILED = 'NEXUSSYNC_022',
+}
+
+/** What the engine was doing when the error happened. */
+export type NexusSyncErrorOperation = NexusOperationType | 'LOAD' | 'SYNC';
+
+export interface NexusSyncErrorDetails {
+  operation?: NexusSyncErrorOperation;
+  itemId?: string;
+  cause?: unknown;
+  retryable?: boolean;
+}
+
+/** Every failure reported by the library, through `errors` and `onError`. */
+export class NexusSyncError extends Error {
+  readonly code: NexusSyncErrorCode;
+  readonly operation: NexusSyncErrorOperation | undefined;
+  readonly itemId: string | undefined;
+  readonly cause: unknown;
+  // Whether trying the same thing again later may succeed
+  readonly retryable: boolean;
+  readonly timestamp: number;
+
+  constructor(code: NexusSyncErrorCode, details: NexusSyncErrorDetails = {}) {
+    super(`ERROR ${code}: ${describeCause(details.cause)}`);
+    // Keeps instanceof working once compiled down to ES5
+    Object.setPrototypeOf(this, NexusSyncError.prototype);
+    this.name = 'NexusSyncError';
+    this.code = code;
+    this.operation = details.operation;
+    this.itemId = details.itemId;
+    this.cause = details.cause;
+    this.retryable = details.retryable ?? false;
+    this.timestamp = Date.now();
+  }
+}
+
+const describeCause = (cause: unknown): string => {
+  if (cause instanceof Error) {
+    return cause.message;
+  }
+  if (typeof cause === 'string') {
+    return cause;
+  }
+  try {
+    return JSON.stringify(cause) ?? String(cause);
+  } catch {
+    return String(cause);
+  }
+};
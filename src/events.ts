@@ -0,0 +1,81 @@
+import { isDeepEqual, type NexusConflictDecision } from './conflicts';
+import type { NexusSyncError } from './errors';
+import type { NexusOperationType } from './outbox';
+import type { NexusGenericPrimaryType } from './types';
+
+/**
+ * A change that made it through a sync: a local change confirmed by the
+ * remote (`PUSH`) or a remote change applied locally (`PULL`).
+ */
+export interface NexusItemSyncedEvent<T extends NexusGenericPrimaryType> {
+  direction: 'PUSH' | 'PULL';
+  type: NexusOperationType;
+  itemId: string;
+  item?: T; // Missing for deletions
+}
+
+export interface NexusConflictEvent<T extends NexusGenericPrimaryType> {
+  itemId: string;
+  localItem: T;
+  remoteItem: T;
+  baseItem: T | undefined;
+  resolution: T | NexusConflictDecision;
+}
+
+export interface NexusSyncSummary {
+  pushed: number;
+  pulled: number;
+  conflicts: number;
+  failed: number;
+  pending: number; // Changes still waiting for the remote
+  startedAt: number;
+  finishedAt: number;
+  error?: NexusSyncError; // Set when the sync itself failed
+  cancelled?: boolean;
+}
+
+/** Callbacks following a sync from start to end. Failures go to `onError`. */
+export interface NexusSyncEvents<T extends NexusGenericPrimaryType> {
+  onSyncStart?: () => void;
+  onItemSynced?: (event: NexusItemSyncedEvent<T>) => void;
+  onConflict?: (event: NexusConflictEvent<T>) => void;
+  onSyncComplete?: (summary: NexusSyncSummary) => void;
+}
+
+/**
+ * Remote changes between two versions of a collection, leaving out the items
+ * in `ignoredIds`, which changed because of local operations.
+ */
+export function getPulledChanges<T extends NexusGenericPrimaryType>(
+  previousItems: T[],
+  nextItems: T[],
+  idAttributeName: keyof T,
+  ignoredIds: Set<string>
+): NexusItemSyncedEvent<T>[] {
+  const previousById = new Map(
+    previousItems.map((item) => [String(item?.[idAttributeName]), item])
+  );
+  const nextIds = new Set<string>();
+  const events: NexusItemSyncedEvent<T>[] = [];
+
+  nextItems.forEach((item) => {
+    const itemId = String(item?.[idAttributeName]);
+    nextIds.add(itemId);
+    if (ignoredIds.has(itemId)) {
+      return;
+    }
+    const previousItem = previousById.get(itemId);
+    if (previousItem === undefined) {
+      events.push({ direction: 'PULL', type: 'CREATE', itemId, item });
+    } else if (!isDeepEqual(previousItem, item)) {
+      events.push({ direction: 'PULL', type: 'UPDATE', itemId, item });
+    }
+  });
+  previousById.forEach((_item, itemId) => {
+    if (!nextIds.has(itemId) && !ignoredIds.has(itemId)) {
+      events.push({ direction: 'PULL', type: 'DELETE', itemId });
+    }
+  });
+
+  return events;
+}
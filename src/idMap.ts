@@ -0,0 +1,129 @@
+import type { NexusStorageAdapter } from './storage';
+import type { NexusGenericPrimaryType } from './types';
+
+/** Temporary ids given offline, mapped to the ids assigned by the remote. */
+export type NexusIdMap = Record<string, string>;
+
+/**
+ * Attributes of an item holding ids of other items, mapped to the
+ * `async_DATA_KEY` of the collection they point to.
+ */
+export type NexusForeignKeys<T extends NexusGenericPrimaryType> = Partial<
+  Record<keyof T, string>
+>;
+
+export type NexusIdRemapListener = (
+  async_DATA_KEY: string,
+  temporaryId: string,
+  remoteId: string
+) => void;
+
+export const getIdMapKey = (async_DATA_KEY: string) =>
+  async_DATA_KEY + '_idmap';
+
+const TEMPORARY_ID_PREFIX = 'tmp-';
+
+let temporaryIdCounter = 0;
+
+/**
+ * Id of an item created offline, until the remote assigns its own. Unique
+ * even for items created in the same millisecond, or by another launch.
+ */
+export const createTemporaryId = () => {
+  temporaryIdCounter = (temporaryIdCounter + 1) % Number.MAX_SAFE_INTEGER;
+  const time = Date.now().toString(36);
+  const counter = temporaryIdCounter.toString(36);
+  const random = Math.random().toString(36).slice(2, 8);
+  return `${TEMPORARY_ID_PREFIX}${time}-${counter}-${random}`;
+};
+
+/** Whether `id` was given by `createTemporaryId`. */
+export const isTemporaryId = (id: unknown) =>
+  typeof id === 'string' && id.startsWith(TEMPORARY_ID_PREFIX);
+
+const idRemapListeners = new Set<NexusIdRemapListener>();
+
+/** Notifies every live collection that an item got its remote id. */
+export function publishIdRemap(
+  async_DATA_KEY: string,
+  temporaryId: string,
+  remoteId: string
+): void {
+  idRemapListeners.forEach((listener) =>
+    listener(async_DATA_KEY, temporaryId, remoteId)
+  );
+}
+
+export function subscribeToIdRemaps(
+  listener: NexusIdRemapListener
+): () => void {
+  idRemapListeners.add(listener);
+  return () => {
+    idRemapListeners.delete(listener);
+  };
+}
+
+export async function loadIdMap(
+  storage: NexusStorageAdapter,
+  async_DATA_KEY: string
+): Promise<NexusIdMap> {
+  const idMapString = await storage.getItem(getIdMapKey(async_DATA_KEY));
+  return JSON.parse(idMapString ?? '{}') as NexusIdMap;
+}
+
+/**
+ * Rewrites the foreign keys of an item that still point to temporary ids.
+ * `idMaps` holds the id map of every referenced collection. The same item is
+ * returned when nothing changed.
+ */
+export function remapForeignKeys<T extends NexusGenericPrimaryType>(
+  item: T,
+  foreignKeys: NexusForeignKeys<T> | undefined,
+  idMaps: Record<string, NexusIdMap>
+): T {
+  if (foreignKeys === undefined || item === undefined || item === null) {
+    return item;
+  }
+
+  let remappedItem: any = item;
+  (Object.keys(foreignKeys) as (keyof T)[]).forEach((attributeName) => {
+    const collectionKey = foreignKeys[attributeName];
+    const value = item[attributeName];
+    const remoteId =
+      collectionKey !== undefined && value !== undefined && value !== null
+        ? idMaps[collectionKey]?.[String(value)]
+        : undefined;
+
+    if (remoteId !== undefined) {
+      if (remappedItem === item) {
+        remappedItem = { ...item };
+      }
+      remappedItem[attributeName] = remoteId;
+    }
+  });
+
+  return remappedItem;
+}
+
+/**
+ * Whether a foreign key of `item` still points to an item created offline
+ * whose remote id is not known yet. Such an item can not be pushed before.
+ */
+export function hasTemporaryForeignKeys<T extends NexusGenericPrimaryType>(
+  item: T | undefined,
+  foreignKeys: NexusForeignKeys<T> | undefined,
+  idMaps: Record<string, NexusIdMap>
+): boolean {
+  if (foreignKeys === undefined || item === undefined || item === null) {
+    return false;
+  }
+  return (Object.keys(foreignKeys) as (keyof T)[]).some((attributeName) => {
+    const collectionKey = foreignKeys[attributeName];
+    const value = item[attributeName];
+    return (
+      collectionKey !== undefined &&
+      isTemporaryId(value) &&
+      idMaps[collectionKey]?.[String(value)] === undefined
+    );
+  });
+}
@@ -0,0 +1,91 @@
+import type { NexusDeadLetter, NexusOperation } from './outbox';
+import type { NexusGenericPrimaryType } from './types';
+
+export type NexusRecordSyncState =
+  | 'SYNCED'
+  | 'PENDING_CREATE'
+  | 'PENDING_UPDATE'
+  | 'PENDING_DELETE'
+  | 'FAILED';
+
+/** Sync bookkeeping of one record, kept apart from the record itself. */
+export interface NexusRecordMetadata {
+  syncState: NexusRecordSyncState;
+  isSyncing: boolean; // Being sent to the remote right now
+  lastSyncedAt?: number; // Last time the record was known equal on both sides
+  localVersion: number; // Bumped on every local change
+  lastError?: string;
+}
+
+export interface NexusItemWithStatus<T extends NexusGenericPrimaryType> {
+  item: T;
+  status: NexusRecordMetadata;
+}
+
+export const getMetadataKey = (async_DATA_KEY: string) =>
+  async_DATA_KEY + '_meta';
+
+export const SYNCED_RECORD: NexusRecordMetadata = {
+  syncState: 'SYNCED',
+  isSyncing: false,
+  localVersion: 0,
+};
+
+/** State of a record given its pending operations and dead letters. */
+export function getRecordSyncState<T extends NexusGenericPrimaryType>(
+  operations: NexusOperation<T>[],
+  deadLetters: NexusDeadLetter<T>[]
+): Pick<NexusRecordMetadata, 'syncState' | 'lastError'> {
+  const lastDeadLetter = deadLetters[deadLetters.length - 1];
+  if (lastDeadLetter) {
+    return { syncState: 'FAILED', lastError: lastDeadLetter.lastError };
+  }
+
+  const lastOperation = operations[operations.length - 1];
+  const lastError = [...operations]
+    .reverse()
+    .find((operation) => operation.lastError !== undefined)?.lastError;
+  if (!lastOperation) {
+    return { syncState: 'SYNCED' };
+  }
+  if (lastOperation.type === 'DELETE') {
+    return { syncState: 'PENDING_DELETE', lastError };
+  }
+  return operations.some((operation) => operation.type === 'CREATE')
+    ? { syncState: 'PENDING_CREATE', lastError }
+    : { syncState: 'PENDING_UPDATE', lastError };
+}
+
+/** Pairs every item with its sync status. */
+export function getItemsWithStatus<T extends NexusGenericPrimaryType>(
+  items: T[],
+  recordMetadata: Record<string, NexusRecordMetadata>,
+  idAttributeName: keyof T | undefined
+): NexusItemWithStatus<T>[] {
+  return items.map((item) => ({
+    item,
+    status:
+      (idAttributeName !== undefined &&
+        recordMetadata[String(item?.[idAttributeName])]) ||
+      SYNCED_RECORD,
+  }));
+}
+
+/**
+ * Drops the `createdOffline` flag earlier versions stored on the items
+ * created offline. The same item is returned when it has none.
+ */
+export function stripLegacyFlags<T extends NexusGenericPrimaryType>(
+  item: T
+): T {
+  if (
+    item === null ||
+    typeof item !== 'object' ||
+    !('createdOffline' in item)
+  ) {
+    return item;
+  }
+  const strippedItem: any = { ...item };
+  delete strippedItem.createdOffline;
+  return strippedItem;
+}
@@ -0,0 +1,51 @@
+/**
+ * Upgrades stored items from one version to the next. Migration `n` of the
+ * `migrations` option takes items stored at version `n` to version `n + 1`.
+ */
+export type NexusMigration = (items: any[]) => any[];
+
+/**
+ * Envelope persisted around a collection. `version` is the number of
+ * migrations the items went through. Collections stored as a bare array,
+ * before the envelope existed, are at version 0.
+ */
+export interface NexusStoredCollection<I> {
+  version: number;
+  items: I[];
+}
+
+export function serializeCollection<I>(items: I[], version: number): string {
+  const stored: NexusStoredCollection<I> = { version, items };
+  return JSON.stringify(stored);
+}
+
+/** Reads a stored collection, with or without envelope. Throws on bad JSON. */
+export function parseCollection<I>(value: string): NexusStoredCollection<I> {
+  const stored = JSON.parse(value);
+  if (Array.isArray(stored)) {
+    return { version: 0, items: stored };
+  }
+  if (typeof stored?.version !== 'number' || !Array.isArray(stored?.items)) {
+    throw new Error('Unknown collection format');
+  }
+  return stored as NexusStoredCollection<I>;
+}
+
+/**
+ * Runs the migrations needed to bring items from `version` to the latest
+ * one. Throws when the items come from a newer version than the app knows.
+ */
+export function migrateItems(
+  items: any[],
+  version: number,
+  migrations: NexusMigration[]
+): any[] {
+  if (version > migrations.length) {
+    throw new Error(
+      `Stored version ${version} is newer than the latest known version ${migrations.length}`
+    );
+  }
+  return migrations
+    .slice(version)
+    .reduce((migratedItems, migration) => migration(migratedItems), items);
+}
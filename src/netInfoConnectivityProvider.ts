@@ -0,0 +1,17 @@
+import NetInfo, { type NetInfoState } from '@react-native-community/netinfo';
+import type { NexusConnectivityProvider } from './connectivity';
+
+/**
+ * Default provider. A network NetInfo knows to be cut from the internet, as
+ * behind a captive portal, counts as offline.
+ */
+export const netInfoConnectivityProvider: NexusConnectivityProvider = {
+  subscribe: (listener) =>
+    NetInfo.addEventListener((netInfoState: NetInfoState) => {
+      if (netInfoState.isConnected !== null) {
+        listener(
+          netInfoState.isConnected && netInfoState.isInternetReachable !== false
+        );
+      }
+    }),
+};
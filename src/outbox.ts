@@ -0,0 +1,401 @@
+import type { NexusStorageAdapter } from './storage';
+import type { NexusGenericPrimaryType } from './types';
+
+export type NexusOperationType = 'CREATE' | 'UPDATE' | 'DELETE';
+
+export interface NexusOperation<T extends NexusGenericPrimaryType> {
+  id: string;
+  type: NexusOperationType;
+  itemId: string;
+  payload?: T;
+  timestamp: number;
+  attempts: number;
+  nextAttemptAt?: number;
+  lastError?: string;
+  optimistic?: boolean; // Already shown locally while the remote was online
+}
+
+/** Operation that kept failing and will not be retried on its own. */
+export interface NexusDeadLetter<T extends NexusGenericPrimaryType>
+  extends NexusOperation<T> {
+  failedAt: number;
+}
+
+export const getOutboxKey = (async_DATA_KEY: string) =>
+  async_DATA_KEY + '_outbox';
+
+export const getDeadLetterKey = (async_DATA_KEY: string) =>
+  async_DATA_KEY + '_deadletter';
+
+let operationCounter = 0;
+
+const createOperationId = () => {
+  operationCounter = (operationCounter + 1) % Number.MAX_SAFE_INTEGER;
+  return `${Date.now().toString(36)}-${operationCounter.toString(36)}`;
+};
+
+/**
+ * Durable, ordered log of the local changes that still have to reach the
+ * remote. Every mutation is written through to storage so pending work
+ * survives app restarts.
+ */
+export class NexusOutbox<T extends NexusGenericPrimaryType> {
+  private operations: NexusOperation<T>[] = [];
+  private deadLetters: NexusDeadLetter<T>[] = [];
+  private loading: Promise<NexusOperation<T>[]> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly storage: NexusStorageAdapter,
+    private readonly storageKey: string,
+    private readonly deadLetterKey: string
+  ) {}
+
+  load(): Promise<NexusOperation<T>[]> {
+    if (!this.loading) {
+      this.loading = Promise.all([
+        this.storage.getItem(this.storageKey),
+        this.storage.getItem(this.deadLetterKey),
+      ]).then(([outboxString, deadLettersString]) => {
+        const stored = JSON.parse(outboxString ?? '[]') as NexusOperation<T>[];
+        // Anything enqueued before the stored log was read goes after it
+        this.operations = [...stored, ...this.operations];
+        this.deadLetters = [
+          ...(JSON.parse(deadLettersString ?? '[]') as NexusDeadLetter<T>[]),
+          ...this.deadLetters,
+        ];
+        return this.list();
+      });
+    }
+    return this.loading;
+  }
+
+  list(): NexusOperation<T>[] {
+    return [...this.operations];
+  }
+
+  listDeadLetters(): NexusDeadLetter<T>[] {
+    return [...this.deadLetters];
+  }
+
+  get size(): number {
+    return this.operations.length;
+  }
+
+  async enqueue(
+    type: NexusOperationType,
+    itemId: string,
+    payload?: T,
+    optimistic?: boolean
+  ): Promise<NexusOperation<T>> {
+    const operation: NexusOperation<T> = {
+      id: createOperationId(),
+      type,
+      itemId,
+      payload,
+      timestamp: Date.now(),
+      attempts: 0,
+    };
+    if (optimistic) {
+      operation.optimistic = true;
+    }
+    this.operations.push(operation);
+    await this.persist();
+    return operation;
+  }
+
+  async remove(operationId: string): Promise<void> {
+    this.operations = this.operations.filter((op) => op.id !== operationId);
+    await this.persist();
+  }
+
+  async markAttempt(
+    operationId: string,
+    lastError: string,
+    nextAttemptAt?: number
+  ): Promise<void> {
+    this.operations = this.operations.map((op) =>
+      op.id === operationId
+        ? { ...op, attempts: op.attempts + 1, lastError, nextAttemptAt }
+        : op
+    );
+    await this.persist();
+  }
+
+  async moveToDeadLetters(
+    operationId: string,
+    lastError: string
+  ): Promise<void> {
+    const operation = this.operations.find((op) => op.id === operationId);
+    if (!operation) {
+      return;
+    }
+
+    this.operations = this.operations.filter((op) => op.id !== operationId);
+    this.deadLetters = [
+      ...this.deadLetters,
+      {
+        ...operation,
+        attempts: operation.attempts + 1,
+        lastError,
+        nextAttemptAt: undefined,
+        failedAt: Date.now(),
+      },
+    ];
+    await Promise.all([this.persist(), this.persistDeadLetters()]);
+  }
+
+  /**
+   * Puts a dead letter back in the outbox with a fresh attempt count, ahead
+   * of any later operation of the same item.
+   */
+  async restoreDeadLetter(operationId: string): Promise<void> {
+    const deadLetter = this.deadLetters.find((op) => op.id === operationId);
+    if (!deadLetter) {
+      return;
+    }
+
+    const restored: any = {
+      ...deadLetter,
+      attempts: 0,
+      nextAttemptAt: undefined,
+    };
+    delete restored.failedAt;
+    const nextIndex = this.operations.findIndex(
+      (op) => op.itemId === deadLetter.itemId
+    );
+
+    this.deadLetters = this.deadLetters.filter((op) => op.id !== operationId);
+    if (nextIndex === -1) {
+      this.operations = [...this.operations, restored];
+    } else {
+      this.operations = [
+        ...this.operations.slice(0, nextIndex),
+        restored,
+        ...this.operations.slice(nextIndex),
+      ];
+    }
+    await Promise.all([this.persist(), this.persistDeadLetters()]);
+  }
+
+  async discardDeadLetter(
+    operationId: string
+  ): Promise<NexusDeadLetter<T> | undefined> {
+    const deadLetter = this.deadLetters.find((op) => op.id === operationId);
+    this.deadLetters = this.deadLetters.filter((op) => op.id !== operationId);
+    await this.persistDeadLetters();
+    return deadLetter;
+  }
+
+  /** Drops every pending operation of an item. */
+  async removeItemOperations(itemId: string): Promise<void> {
+    this.operations = this.operations.filter((op) => op.itemId !== itemId);
+    await this.persist();
+  }
+
+  /**
+   * Points the remaining operations of an item at a new id, used once the
+   * remote has assigned the real id of an item created offline. Given the
+   * creation, only the operations recorded after it are remapped.
+   */
+  async remapItemId(
+    oldId: string,
+    newId: string,
+    idAttributeName: keyof T,
+    creation?: NexusOperation<T>
+  ): Promise<void> {
+    // The creation is still queued, the operations after it are its edits
+    const creationIndex = creation
+      ? this.operations.findIndex((op) => op.id === creation.id)
+      : -1;
+    const remap = <O extends NexusOperation<T>>(op: O, after: boolean): O => {
+      if (op.itemId !== oldId || !after) {
+        return op;
+      }
+      let payload: any = op.payload;
+      if (payload !== undefined) {
+        payload = { ...payload };
+        payload[idAttributeName] = newId;
+      }
+      return { ...op, itemId: newId, payload };
+    };
+
+    this.operations = this.operations.map((op, index) =>
+      remap(op, index > creationIndex)
+    );
+    this.deadLetters = this.deadLetters.map((op) =>
+      remap(op, !creation || op.timestamp >= creation.timestamp)
+    );
+    await Promise.all([this.persist(), this.persistDeadLetters()]);
+  }
+
+  /** Rewrites the payloads of pending operations and dead letters. */
+  async mapPayloads(mapPayload: (payload: T) => T): Promise<void> {
+    let changed = false;
+    const map = <O extends NexusOperation<T>>(op: O): O => {
+      const payload =
+        op.payload === undefined ? undefined : mapPayload(op.payload);
+      if (payload === op.payload) {
+        return op;
+      }
+      changed = true;
+      return { ...op, payload };
+    };
+
+    this.operations = this.operations.map(map);
+    this.deadLetters = this.deadLetters.map(map);
+    if (changed) {
+      await Promise.all([this.persist(), this.persistDeadLetters()]);
+    }
+  }
+
+  /**
+   * Settles the pending updates of an item after a conflict: they are either
+   * dropped (`null`) or collapsed into the last one carrying `payload`.
+   */
+  async resolveUpdates(itemId: string, payload: T | null): Promise<void> {
+    const updates = this.operations.filter(
+      (op) => op.itemId === itemId && op.type === 'UPDATE'
+    );
+    const lastUpdate = updates[updates.length - 1];
+
+    this.operations = this.operations.flatMap((op) => {
+      if (op.itemId !== itemId || op.type !== 'UPDATE') {
+        return [op];
+      }
+      return payload !== null && op === lastUpdate ? [{ ...op, payload }] : [];
+    });
+    await this.persist();
+  }
+
+  /** Collapses the pending operations of each item, see `coalesceOperations`. */
+  async coalesce(): Promise<void> {
+    const operations = coalesceOperations(this.operations);
+    if (operations.length !== this.operations.length) {
+      this.operations = operations;
+      await this.persist();
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.operations = [];
+    this.deadLetters = [];
+    await Promise.all([this.persist(), this.persistDeadLetters()]);
+  }
+
+  private persist(): Promise<void> {
+    return this.write(this.storageKey, JSON.stringify(this.operations));
+  }
+
+  private persistDeadLetters(): Promise<void> {
+    return this.write(this.deadLetterKey, JSON.stringify(this.deadLetters));
+  }
+
+  private write(key: string, value: string): Promise<void> {
+    // Writes are chained so an older snapshot never overwrites a newer one
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(() => this.storage.setItem(key, value));
+    return this.writing;
+  }
+}
+
+/**
+ * Collapses the operations of each item so the remote sees as few calls as
+ * possible: a create followed by a delete goes away, later updates are folded
+ * into the create or the last update, and updates followed by a delete leave
+ * the delete only. A merged create keeps the place of the create, so that
+ * records created after it, which may point to it, still come after it.
+ * Other merged operations take the place of the last one they replace. Both
+ * keep the attempts of the first.
+ */
+export function coalesceOperations<T extends NexusGenericPrimaryType>(
+  operations: NexusOperation<T>[]
+): NexusOperation<T>[] {
+  // Operation kept in place of the create or the last one of each merged run
+  const replacements = new Map<string, NexusOperation<T> | null>();
+  const runs = new Map<string, NexusOperation<T>[]>();
+
+  const closeRun = (itemId: string) => {
+    const run = runs.get(itemId);
+    runs.delete(itemId);
+    if (!run || run.length < 2) {
+      return;
+    }
+
+    const first = run[0] as NexusOperation<T>;
+    const last = run[run.length - 1] as NexusOperation<T>;
+    run.forEach((operation) => replacements.set(operation.id, null));
+    if (first.type === 'CREATE' && last.type === 'DELETE') {
+      return;
+    }
+
+    const kept = first.type === 'CREATE' ? first : last;
+    const merged: NexusOperation<T> = {
+      ...last,
+      id: kept.id,
+      type: first.type === 'CREATE' ? 'CREATE' : last.type,
+      timestamp: kept.timestamp,
+      attempts: first.attempts,
+      nextAttemptAt: first.nextAttemptAt,
+      lastError: first.lastError,
+    };
+    if (run.some((operation) => !operation.optimistic)) {
+      delete merged.optimistic;
+    }
+    replacements.set(kept.id, merged);
+  };
+
+  operations.forEach((operation) => {
+    const run = runs.get(operation.itemId);
+    const previous = run?.[run.length - 1];
+    // Nothing can be merged after a delete
+    if (run && previous?.type !== 'DELETE' && operation.type !== 'CREATE') {
+      run.push(operation);
+    } else {
+      closeRun(operation.itemId);
+      runs.set(operation.itemId, [operation]);
+    }
+  });
+  [...runs.keys()].forEach(closeRun);
+
+  return operations.flatMap((operation) => {
+    const replacement = replacements.get(operation.id);
+    if (replacement === undefined) {
+      return [operation];
+    }
+    return replacement === null ? [] : [replacement];
+  });
+}
+
+/**
+ * Replays operations on top of a list of items, in order. Used to lay the
+ * still pending local changes over freshly fetched remote data.
+ */
+export function applyOperations<T extends NexusGenericPrimaryType>(
+  items: T[],
+  operations: NexusOperation<T>[],
+  idAttributeName: keyof T
+): T[] {
+  const result = [...items];
+
+  for (const op of operations) {
+    const index = result.findIndex(
+      (item) => String(item?.[idAttributeName]) === op.itemId
+    );
+
+    if (op.type === 'DELETE') {
+      if (index !== -1) {
+        result.splice(index, 1);
+      }
+    } else if (op.payload !== undefined) {
+      if (index !== -1) {
+        result[index] = op.payload;
+      } else {
+        result.push(op.payload);
+      }
+    }
+  }
+
+  return result;
+}
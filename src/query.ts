@@ -0,0 +1,251 @@
+import { isDeepEqual } from './conflicts';
+import type { NexusGenericPrimaryType } from './types';
+
+/** Conditions on one attribute, all of which must hold. */
+export interface NexusQueryOperators<V> {
+  eq?: V;
+  ne?: V;
+  gt?: V;
+  gte?: V;
+  lt?: V;
+  lte?: V;
+  in?: V[];
+}
+
+/**
+ * Attributes an item must match: a value, compared deeply, or operators.
+ * Every attribute listed must match.
+ */
+export type NexusWhere<T extends NexusGenericPrimaryType> = {
+  [K in keyof T]?: T[K] | NexusQueryOperators<T[K]>;
+};
+
+/** Attribute to sort by, ascending unless `direction` is DESC. */
+export type NexusOrderBy<T extends NexusGenericPrimaryType> =
+  | keyof T
+  | { attribute: keyof T; direction?: 'ASC' | 'DESC' };
+
+export interface NexusQuery<T extends NexusGenericPrimaryType> {
+  where?: NexusWhere<T> | ((item: T) => boolean);
+  orderBy?: NexusOrderBy<T> | NexusOrderBy<T>[]; // Collection order by default
+  limit?: number;
+  offset?: number;
+}
+
+export interface NexusQueryResult<T extends NexusGenericPrimaryType> {
+  items: T[];
+  total: number; // Items matching, before offset and limit
+}
+
+const OPERATORS = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in'];
+
+const isIndexable = (value: unknown) =>
+  value === null || (typeof value !== 'object' && typeof value !== 'function');
+
+const isOperators = (
+  condition: unknown
+): condition is NexusQueryOperators<any> =>
+  typeof condition === 'object' &&
+  condition !== null &&
+  !Array.isArray(condition) &&
+  Object.keys(condition).length > 0 &&
+  Object.keys(condition).every((key) => OPERATORS.includes(key));
+
+/** Orders values of one attribute, missing values last. */
+function compareValues(a: any, b: any): number {
+  if (a === b) {
+    return 0;
+  }
+  if (a === undefined || a === null) {
+    return 1;
+  }
+  if (b === undefined || b === null) {
+    return -1;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function matchesCondition(value: any, condition: unknown): boolean {
+  if (!isOperators(condition)) {
+    return isDeepEqual(value, condition);
+  }
+  const { eq, ne, gt, gte, lt, lte } = condition;
+  return (
+    (!('eq' in condition) || isDeepEqual(value, eq)) &&
+    (!('ne' in condition) || !isDeepEqual(value, ne)) &&
+    (gt === undefined || (value != null && value > gt)) &&
+    (gte === undefined || (value != null && value >= gte)) &&
+    (lt === undefined || (value != null && value < lt)) &&
+    (lte === undefined || (value != null && value <= lte)) &&
+    (condition.in === undefined ||
+      condition.in.some((candidate) => isDeepEqual(value, candidate)))
+  );
+}
+
+function addPosition(
+  positions: Map<unknown, number[]>,
+  value: unknown,
+  position: number
+) {
+  if (!isIndexable(value)) {
+    return;
+  }
+  const valuePositions = positions.get(value);
+  if (!valuePositions) {
+    positions.set(value, [position]);
+    return;
+  }
+  // Appended items go last, kept sorted for items replaced in place
+  let index = valuePositions.length;
+  while (index > 0 && (valuePositions[index - 1] as number) > position) {
+    index--;
+  }
+  valuePositions.splice(index, 0, position);
+}
+
+function removePosition(
+  positions: Map<unknown, number[]>,
+  value: unknown,
+  position: number
+) {
+  const valuePositions = positions.get(value);
+  const index = valuePositions?.indexOf(position) ?? -1;
+  if (!valuePositions || index < 0) {
+    return;
+  }
+  valuePositions.splice(index, 1);
+  if (valuePositions.length === 0) {
+    positions.delete(value);
+  }
+}
+
+/**
+ * Positions of the items by value, for each indexed attribute, kept up to
+ * date with `update` as the collection changes.
+ */
+export class NexusCollectionIndex<T extends NexusGenericPrimaryType> {
+  private readonly positions = new Map<keyof T, Map<unknown, number[]>>();
+  private indexedData: T[] = [];
+
+  constructor(data: T[], readonly attributes: (keyof T)[]) {
+    attributes.forEach((attribute) => this.positions.set(attribute, new Map()));
+    this.update(data);
+  }
+
+  /** Version of the collection the index is up to date with. */
+  get data(): T[] {
+    return this.indexedData;
+  }
+
+  /**
+   * Brings the index up to date with `data`. Items replaced in place or
+   * added at the end are indexed alone. When items were removed, or most of
+   * them changed as after a sync, the index is rebuilt.
+   */
+  update(data: T[]): void {
+    let previous = this.indexedData;
+    let changed: number[] = [];
+    data.forEach((item, position) => {
+      if (position >= previous.length || item !== previous[position]) {
+        changed.push(position);
+      }
+    });
+    if (data.length < previous.length || changed.length > data.length / 2) {
+      previous = [];
+      changed = data.map((_item, position) => position);
+      this.positions.forEach((positions) => positions.clear());
+    }
+
+    changed.forEach((position) => {
+      this.positions.forEach((positions, attribute) => {
+        if (position < previous.length) {
+          removePosition(positions, previous[position]?.[attribute], position);
+        }
+        addPosition(positions, data[position]?.[attribute], position);
+      });
+    });
+    this.indexedData = data;
+  }
+
+  /**
+   * Positions of the items that may match `where`, in collection order, or
+   * undefined when no indexed attribute narrows it down.
+   */
+  lookup(where: NexusWhere<T>): number[] | undefined {
+    let candidates: number[] | undefined;
+    Object.keys(where).forEach((attribute) => {
+      const positions = this.positions.get(attribute);
+      const condition = where[attribute];
+      const values = isOperators(condition)
+        ? condition.in ?? ('eq' in condition ? [condition.eq] : undefined)
+        : [condition];
+      if (!positions || !values || !values.every(isIndexable)) {
+        return;
+      }
+      const matching = [
+        ...new Set(values.flatMap((value) => positions.get(value) ?? [])),
+      ].sort((a, b) => a - b);
+      if (!candidates || matching.length < candidates.length) {
+        candidates = matching;
+      }
+    });
+    return candidates;
+  }
+}
+
+/**
+ * Filters, sorts and pages `data`. Equality conditions on the attributes of
+ * `index` are looked up instead of scanning the collection.
+ */
+export function runQuery<T extends NexusGenericPrimaryType>(
+  data: T[],
+  { where, orderBy, limit, offset = 0 }: NexusQuery<T>,
+  index?: NexusCollectionIndex<T>
+): NexusQueryResult<T> {
+  let items = data;
+  if (typeof where === 'function') {
+    items = data.filter((item) => where(item));
+  } else if (where) {
+    const positions = index?.data === data ? index.lookup(where) : undefined;
+    const candidates = positions
+      ? positions.map((position) => data[position] as T)
+      : data;
+    const attributes = Object.keys(where);
+    items = candidates.filter((item) =>
+      attributes.every((attribute) =>
+        matchesCondition(item?.[attribute], where[attribute])
+      )
+    );
+  }
+
+  if (orderBy !== undefined) {
+    const sorts = (Array.isArray(orderBy) ? orderBy : [orderBy]).map((sort) =>
+      typeof sort === 'object'
+        ? {
+            attribute: sort.attribute,
+            sign: sort.direction === 'DESC' ? -1 : 1,
+          }
+        : { attribute: sort, sign: 1 }
+    );
+    // Sorting a copy, stable so equal items keep the collection order
+    items = [...items].sort((a, b) => {
+      for (const { attribute, sign } of sorts) {
+        const comparison = compareValues(a?.[attribute], b?.[attribute]);
+        if (comparison !== 0) {
+          return a?.[attribute] == null || b?.[attribute] == null
+            ? comparison
+            : sign * comparison;
+        }
+      }
+      return 0;
+    });
+  }
+
+  return {
+    items: items.slice(
+      offset,
+      limit === undefined ? undefined : offset + limit
+    ),
+    total: items.length,
+  };
+}
@@ -0,0 +1,13 @@
+import { AppState, type AppStateStatus } from 'react-native';
+import type { NexusAppStateProvider } from './appState';
+
+/** Default provider, only the `active` state counts as foreground. */
+export const reactNativeAppStateProvider: NexusAppStateProvider = {
+  subscribe: (listener) => {
+    const subscription = AppState.addEventListener(
+      'change',
+      (appState: AppStateStatus) => listener(appState === 'active')
+    );
+    return () => subscription.remove();
+  },
+};
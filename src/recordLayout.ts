@@ -0,0 +1,80 @@
+import type { NexusStorageAdapter } from './storage';
+
+/**
+ * How a collection is laid out in storage: as one value holding every item,
+ * or with each record under its own key, listed by an index.
+ */
+export type NexusStorageLayout = 'COLLECTION' | 'RECORDS';
+
+export const DEFAULT_STORAGE_LAYOUT: NexusStorageLayout = 'COLLECTION';
+
+/**
+ * Index of a collection stored record by record. `ids` keeps the order of
+ * the items, `version` is the version of their migrations.
+ */
+export interface NexusRecordIndex {
+  version: number;
+  ids: string[];
+}
+
+export const getIndexKey = (async_DATA_KEY: string) =>
+  async_DATA_KEY + '_index';
+
+export const getRecordKey = (async_DATA_KEY: string, id: string) =>
+  `${async_DATA_KEY}_record_${id}`;
+
+export function serializeIndex(ids: string[], version: number): string {
+  const index: NexusRecordIndex = { version, ids };
+  return JSON.stringify(index);
+}
+
+/** Reads an index. Throws on bad JSON or an unknown format. */
+export function parseIndex(value: string): NexusRecordIndex {
+  const index = JSON.parse(value);
+  if (typeof index?.version !== 'number' || !Array.isArray(index?.ids)) {
+    throw new Error('Unknown index format');
+  }
+  return index as NexusRecordIndex;
+}
+
+/**
+ * Reads the records of `ids`, `chunkSize` at a time so a large collection
+ * does not flood the storage bridge. Missing records are left out.
+ */
+export async function readRecords(
+  storage: NexusStorageAdapter,
+  async_DATA_KEY: string,
+  ids: string[],
+  chunkSize: number
+): Promise<Map<string, string>> {
+  const records = new Map<string, string>();
+  const step = Math.max(chunkSize, 1);
+  for (let start = 0; start < ids.length; start += step) {
+    const chunk = ids.slice(start, start + step);
+    const values = await Promise.all(
+      chunk.map((id) => storage.getItem(getRecordKey(async_DATA_KEY, id)))
+    );
+    chunk.forEach((id, i) => {
+      const value = values[i];
+      if (value !== null && value !== undefined) {
+        records.set(id, value);
+      }
+    });
+  }
+  return records;
+}
+
+/**
+ * Keys of the records listed by the index of a collection, none without an
+ * index. Throws when the index can not be read, as when it is encrypted and
+ * `storage` does not decrypt it.
+ */
+export async function getRecordStorageKeys(
+  storage: NexusStorageAdapter,
+  async_DATA_KEY: string
+): Promise<string[]> {
+  const indexString = await storage.getItem(getIndexKey(async_DATA_KEY));
+  return indexString === null
+    ? []
+    : parseIndex(indexString).ids.map((id) => getRecordKey(async_DATA_KEY, id));
+}
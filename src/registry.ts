@@ -0,0 +1,150 @@
+import type { NexusAppStateProvider } from './appState';
+import type { NexusConnectivityProvider } from './connectivity';
+import { NexusSyncEngine, type NexusSyncEngineOptions } from './engine';
+import type { NexusGenericPrimaryType } from './types';
+
+/**
+ * Keeps one engine per `async_DATA_KEY`, so every component bound to a
+ * collection shares its state, its storage writes and its syncs. Engines are
+ * reference counted and disposed once nothing uses them anymore.
+ */
+export class NexusSyncRegistry {
+  private readonly engines = new Map<string, NexusSyncEngine<any>>();
+  private readonly references = new Map<NexusSyncEngine<any>, number>();
+  private readonly engineListeners = new Set<() => void>();
+  private isOnline: boolean | null = null;
+  private isActive: boolean | null = null;
+  private stopWatchingConnectivity: (() => void) | undefined;
+  private stopWatchingAppState: (() => void) | undefined;
+
+  constructor(
+    private readonly connectivityProvider?: NexusConnectivityProvider,
+    private readonly appStateProvider?: NexusAppStateProvider
+  ) {}
+
+  /**
+   * Engine of a collection, created with `options` the first time the
+   * collection is asked for. Later calls get the same engine. Nothing is
+   * started before the engine is retained, so this can run while rendering.
+   */
+  getEngine<T extends NexusGenericPrimaryType>(
+    options: NexusSyncEngineOptions<T>
+  ): NexusSyncEngine<T> {
+    let engine = this.engines.get(options.async_DATA_KEY);
+    if (!engine) {
+      engine = new NexusSyncEngine<T>(options);
+      this.engines.set(options.async_DATA_KEY, engine);
+    }
+    return engine;
+  }
+
+  /** Engine of a collection if it is in use, never creating it. */
+  findEngine<T extends NexusGenericPrimaryType>(
+    async_DATA_KEY: string
+  ): NexusSyncEngine<T> | undefined {
+    const engine = this.engines.get(async_DATA_KEY);
+    return engine && this.references.has(engine) ? engine : undefined;
+  }
+
+  /** Calls `listener` whenever an engine starts or stops being used. */
+  subscribeToEngines(listener: () => void): () => void {
+    this.engineListeners.add(listener);
+    return () => {
+      this.engineListeners.delete(listener);
+    };
+  }
+
+  /** Marks an engine as used. Returns the function releasing it. */
+  retain(engine: NexusSyncEngine<any>): () => void {
+    // A released engine may be retained again, as React does on remounts
+    this.engines.set(engine.key, engine);
+    engine.resume();
+    if (this.isOnline !== null) {
+      engine.setOnline(this.isOnline);
+    }
+    if (this.isActive !== null) {
+      engine.setActive(this.isActive);
+    }
+    const references = this.references.get(engine) ?? 0;
+    this.references.set(engine, references + 1);
+    this.startWatchingConnectivity();
+    references === 0 && this.notifyEngineListeners();
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.release(engine);
+    };
+  }
+
+  /** Shares the network status with every engine. */
+  setOnline(isOnline: boolean): void {
+    this.isOnline = isOnline;
+    this.engines.forEach((engine) => engine.setOnline(isOnline));
+  }
+
+  /** Shares the foreground status of the app with every engine. */
+  setActive(isActive: boolean): void {
+    this.isActive = isActive;
+    this.engines.forEach((engine) => engine.setActive(isActive));
+  }
+
+  /** Cancels the syncs running in every collection, as on logout. */
+  cancelAll(): void {
+    this.engines.forEach((engine) => engine.cancel());
+  }
+
+  /**
+   * Deletes the stored data, pending changes included, of every collection
+   * in use. Their syncs are cancelled first, so that none writes back what it
+   * fetched before the wipe.
+   */
+  async clearAll(): Promise<void> {
+    this.cancelAll();
+    await Promise.all(
+      [...this.engines.values()].map((engine) => engine.clearLocalData())
+    );
+  }
+
+  private release(engine: NexusSyncEngine<any>): void {
+    const references = (this.references.get(engine) ?? 1) - 1;
+    if (references > 0) {
+      this.references.set(engine, references);
+      return;
+    }
+
+    this.references.delete(engine);
+    if (this.engines.get(engine.key) === engine) {
+      this.engines.delete(engine.key);
+      this.notifyEngineListeners();
+    }
+    engine.dispose();
+
+    if (this.references.size === 0) {
+      this.stopWatchingConnectivity?.();
+      this.stopWatchingConnectivity = undefined;
+      this.stopWatchingAppState?.();
+      this.stopWatchingAppState = undefined;
+    }
+  }
+
+  private notifyEngineListeners(): void {
+    this.engineListeners.forEach((listener) => listener());
+  }
+
+  private startWatchingConnectivity(): void {
+    if (this.connectivityProvider && !this.stopWatchingConnectivity) {
+      this.stopWatchingConnectivity = this.connectivityProvider.subscribe(
+        (isOnline) => this.setOnline(isOnline)
+      );
+    }
+    if (this.appStateProvider && !this.stopWatchingAppState) {
+      this.stopWatchingAppState = this.appStateProvider.subscribe((isActive) =>
+        this.setActive(isActive)
+      );
+    }
+  }
+}
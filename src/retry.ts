@@ -0,0 +1,31 @@
+export interface NexusRetryPolicy {
+  maxAttempts: number; // Attempts before an operation becomes a dead letter
+  baseDelay: number; // Milliseconds before the first retry
+  maxDelay: number;
+  jitter: number; // 0 to 1, share of the delay that is randomized
+}
+
+export const DEFAULT_RETRY_POLICY: NexusRetryPolicy = {
+  maxAttempts: 5,
+  baseDelay: 1000,
+  maxDelay: 5 * 60 * 1000,
+  jitter: 0.5,
+};
+
+/**
+ * Exponential backoff for the given failed attempt (1 based), with part of
+ * the delay randomized so many devices do not retry in lockstep.
+ */
+export function getRetryDelay(
+  attempt: number,
+  policy: NexusRetryPolicy,
+  random: () => number = Math.random
+): number {
+  const exponentialDelay = Math.min(
+    policy.maxDelay,
+    policy.baseDelay * Math.pow(2, Math.max(0, attempt - 1))
+  );
+  const jitter = Math.min(1, Math.max(0, policy.jitter));
+
+  return Math.round(exponentialDelay * (1 - jitter * random()));
+}
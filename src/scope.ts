@@ -0,0 +1,24 @@
+import { isDeepEqual } from './conflicts';
+import type { NexusGenericPrimaryType } from './types';
+
+/**
+ * Parameters selecting the part of the remote collection a device syncs,
+ * such as `{ projectId }`. Passed to `GET` and `GET_CHANGES`.
+ */
+export type NexusSyncScope = Record<string, unknown>;
+
+/** Whether a local item belongs to the part of the collection synced. */
+export type NexusScopeMatcher<T extends NexusGenericPrimaryType> = (
+  item: T,
+  scope: NexusSyncScope
+) => boolean;
+
+/** Default matcher: every parameter equals the attribute of the same name. */
+export function matchesScope<T extends NexusGenericPrimaryType>(
+  item: T,
+  scope: NexusSyncScope
+): boolean {
+  return Object.keys(scope).every((key) =>
+    isDeepEqual(item?.[key], scope[key])
+  );
+}
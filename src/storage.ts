@@ -0,0 +1,57 @@
+/**
+ * Key/value persistence used for everything the library keeps on the
+ * device. Values are always strings, as with AsyncStorage.
+ */
+export interface NexusStorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * Non persistent adapter, handy for tests and for collections that must not
+ * outlive the app session.
+ */
+export class MemoryStorageAdapter implements NexusStorageAdapter {
+  private readonly values = new Map<string, string>();
+
+  constructor(initialValues?: Record<string, string>) {
+    if (initialValues) {
+      Object.keys(initialValues).forEach((key) => {
+        this.values.set(key, initialValues[key] as string);
+      });
+    }
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.values.has(key) ? (this.values.get(key) as string) : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+}
+
+export const NEXUSSYNC_KEYS = 'NEXUSSYNC_KEYS';
+
+export async function registerCollectionKey(
+  storage: NexusStorageAdapter,
+  async_DATA_KEY: string
+): Promise<void> {
+  const localKeys = await getRegisteredCollectionKeys(storage);
+  if (!localKeys.includes(async_DATA_KEY)) {
+    localKeys.push(async_DATA_KEY);
+    await storage.setItem(NEXUSSYNC_KEYS, JSON.stringify(localKeys));
+  }
+}
+
+export async function getRegisteredCollectionKeys(
+  storage: NexusStorageAdapter
+): Promise<string[]> {
+  const localKeysString = await storage.getItem(NEXUSSYNC_KEYS);
+  return JSON.parse(localKeysString ?? '[]') as string[];
+}
@@ -0,0 +1,71 @@
+import type { NexusSyncScope } from './scope';
+
+export type NexusGenericPrimaryType = {
+  [x: string]: any;
+};
+
+/** Full load that also hands out the cursor to ask for changes later on. */
+export interface NexusRemotePage<T extends NexusGenericPrimaryType> {
+  items: T[];
+  cursor?: string;
+  serverTime?: number | string; // Lets the device correct its clock
+}
+
+/** Items changed and ids deleted on the remote since a cursor. */
+export interface NexusRemoteChanges<T extends NexusGenericPrimaryType> {
+  changed: T[];
+  deleted: string[];
+  cursor: string;
+  serverTime?: number | string;
+}
+
+/** One local change sent through `BATCH`. */
+export interface NexusBatchChange<T extends NexusGenericPrimaryType> {
+  type: 'CREATE' | 'UPDATE' | 'DELETE';
+  itemId: string;
+  item?: T; // Missing for deletions
+  changedFields?: Partial<T>; // Updates of records with a known synced version
+  baseVersion?: unknown;
+}
+
+/**
+ * Outcome of one change of a batch. `item` is the item as stored by the
+ * remote, required for creations to learn the id it was given.
+ */
+export type NexusBatchResult<T extends NexusGenericPrimaryType> =
+  | { ok: true; item?: T }
+  | { ok: false; error?: unknown };
+
+/**
+ * Every method gets an `AbortSignal` after its own arguments, aborted when
+ * the sync is cancelled. Passing it on to `fetch` stops the request. `GET`
+ * and `GET_CHANGES` then get the `scope` option, if any, to only return the
+ * items of that scope.
+ */
+export interface NexusRemoteMethods<T extends NexusGenericPrimaryType> {
+  GET?: (
+    signal?: AbortSignal,
+    scope?: NexusSyncScope
+  ) => Promise<T[] | NexusRemotePage<T>>;
+  GET_CHANGES?: (
+    cursor: string | null,
+    signal?: AbortSignal,
+    scope?: NexusSyncScope
+  ) => Promise<NexusRemoteChanges<T>>;
+  CREATE?: (item: T, signal?: AbortSignal) => Promise<T>;
+  UPDATE?: (item: T, signal?: AbortSignal) => Promise<T>;
+  DELETE?: (item: string, signal?: AbortSignal) => Promise<string>;
+  // Sends only the fields changed since `baseVersion`, preferred over UPDATE
+  PATCH?: (
+    id: string,
+    changedFields: Partial<T>,
+    baseVersion: unknown,
+    signal?: AbortSignal
+  ) => Promise<T>;
+  PING?: (signal?: AbortSignal) => Promise<unknown>; // Reachability check run before every sync
+  // Pushes many changes at once, results in the order of the changes
+  BATCH?: (
+    changes: NexusBatchChange<T>[],
+    signal?: AbortSignal
+  ) => Promise<NexusBatchResult<T>[]>;
+}
@@ -0,0 +1,63 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useNexusSyncRegistry } from './NexusSyncProvider';
+import { isDeepEqual } from './conflicts';
+import type { NexusQuery, NexusQueryResult } from './query';
+import type { NexusGenericPrimaryType } from './types';
+
+const NO_RESULT: NexusQueryResult<any> = { items: [], total: 0 };
+
+/**
+ * Items of the collection `async_DATA_KEY` matching `query`, run again when
+ * the collection changes. The collection is loaded and synced by
+ * `useNexusSync`, this hook only reads it: until a `useNexusSync` of the
+ * collection is rendered, the result is empty. A query equal to the previous
+ * one is not run again, even when it is written inline.
+ */
+export default function useNexusQuery<T extends NexusGenericPrimaryType>(
+  async_DATA_KEY: string,
+  query: NexusQuery<T> = {}
+): NexusQueryResult<T> {
+  const registry = useNexusSyncRegistry();
+  const [engine, setEngine] = useState(() =>
+    registry.findEngine<T>(async_DATA_KEY)
+  );
+  useEffect(() => {
+    const findEngine = () => setEngine(registry.findEngine<T>(async_DATA_KEY));
+    findEngine();
+    return registry.subscribeToEngines(findEngine);
+  }, [registry, async_DATA_KEY]);
+
+  // The data is kept with its engine, so that a new engine is not queried
+  // with the data of the previous one
+  const [snapshot, setSnapshot] = useState(
+    () => engine && { engine, data: engine.getState().data }
+  );
+  useEffect(() => {
+    if (!engine) {
+      return;
+    }
+    const release = registry.retain(engine);
+    setSnapshot({ engine, data: engine.getState().data });
+    const unsubscribe = engine.subscribe((engineState) => {
+      setSnapshot({ engine, data: engineState.data });
+    });
+    return () => {
+      unsubscribe();
+      release();
+    };
+  }, [registry, engine]);
+
+  const lastQuery = useRef(query);
+  if (!isDeepEqual(lastQuery.current, query)) {
+    lastQuery.current = query;
+  }
+  const currentQuery = lastQuery.current;
+
+  return useMemo(
+    () =>
+      snapshot && snapshot.engine === engine
+        ? snapshot.engine.query(currentQuery, snapshot.data)
+        : NO_RESULT,
+    [engine, snapshot, currentQuery]
+  );
+}
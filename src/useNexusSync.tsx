@@ -0,0 +1,312 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useNexusSyncRegistry } from './NexusSyncProvider';
+import { asyncStorageAdapter } from './asyncStorageAdapter';
+import type {
+  NexusConflictDecision,
+  NexusConflictResolver,
+  NexusDeleteConflictResolver,
+} from './conflicts';
+import {
+  deleteAllLocalSavedData as deleteAllCollections,
+  type NexusOptimisticFailure,
+  type NexusSyncEngineMutableOptions,
+  type NexusSyncState,
+} from './engine';
+import type { NexusEncryptionOptions } from './encryption';
+import type { NexusSyncError } from './errors';
+import type { NexusSyncEvents } from './events';
+import type { NexusForeignKeys } from './idMap';
+import { getItemsWithStatus } from './metadata';
+import type { NexusMigration } from './migrations';
+import type { NexusQuery } from './query';
+import type { NexusStorageLayout } from './recordLayout';
+import type { NexusRetryPolicy } from './retry';
+import type { NexusScopeMatcher, NexusSyncScope } from './scope';
+import type { NexusStorageAdapter } from './storage';
+import type { NexusGenericPrimaryType, NexusRemoteMethods } from './types';
+import type { NexusVersioning } from './versioning';
+
+export interface UseNexusSyncProps<T extends NexusGenericPrimaryType>
+  extends NexusSyncEvents<T> {
+  data?: T[];
+  setData?: (val: T[]) => void;
+  async_DATA_KEY: string;
+  storage?: NexusStorageAdapter; // AsyncStorage by default
+  useMethodsOnly?: boolean;
+  syncRemoteData?: boolean;
+  syncLocalData?: boolean;
+  consoleDebug?: boolean;
+  idAttributeName?: keyof T;
+  modificationDateAttributeName?: keyof T;
+  loadFirstRemote?: boolean; // Will load local data by default
+  autoRefreshOnBackOnline?: boolean;
+  onBackOnline?: () => any;
+  remoteMethods?: NexusRemoteMethods<T>;
+  conflictResolver?: NexusConflictResolver<T>; // clientWins by default
+  deleteConflictResolver?: NexusDeleteConflictResolver<T>; // Left pending by default
+  retryPolicy?: Partial<NexusRetryPolicy>;
+  foreignKeys?: NexusForeignKeys<T>; // { attribute: referenced async_DATA_KEY }
+  onError?: (error: NexusSyncError) => void;
+  reachabilityTimeout?: number; // 5000 by default
+  optimistic?: boolean;
+  optimisticFailure?: NexusOptimisticFailure; // ROLLBACK by default
+  batchSize?: number; // Changes per remoteMethods.BATCH call, 50 by default
+  concurrency?: number; // Remote calls running at once, 4 by default
+  versioning?: NexusVersioning; // ISO by default
+  syncInterval?: number; // Milliseconds between syncs while the app is active
+  foregroundSyncGap?: number; // Minimum milliseconds since the last sync to resync on foreground, 30000 by default
+  migrations?: NexusMigration[]; // Upgrades of the stored items, in order
+  encryption?: NexusEncryptionOptions; // Read once, when the collection is first used
+  storageLayout?: NexusStorageLayout; // COLLECTION by default
+  writeDelay?: number; // Milliseconds record writes are debounced, 200 by default
+  loadChunkSize?: number; // Records read at once, 100 by default
+  indexes?: (keyof T)[]; // Attributes queries look up instead of scanning
+  scope?: NexusSyncScope; // Params given to GET and GET_CHANGES, the whole collection by default
+  scopeMatcher?: NexusScopeMatcher<T>; // Whether a local item is in scope, by default its attributes equal the params
+}
+
+export default function useNexusSync<T extends NexusGenericPrimaryType>(
+  props: UseNexusSyncProps<T>
+) {
+  const storage = props.storage ?? asyncStorageAdapter;
+
+  const options: NexusSyncEngineMutableOptions<T> = {
+    useMethodsOnly: props.useMethodsOnly,
+    syncRemoteData: props.syncRemoteData,
+    consoleDebug: props.consoleDebug,
+    idAttributeName: props.idAttributeName,
+    modificationDateAttributeName: props.modificationDateAttributeName,
+    remoteMethods: props.remoteMethods,
+    conflictResolver: props.conflictResolver,
+    deleteConflictResolver: props.deleteConflictResolver,
+    retryPolicy: props.retryPolicy,
+    foreignKeys: props.foreignKeys,
+    onError: props.onError,
+    reachabilityTimeout: props.reachabilityTimeout,
+    optimistic: props.optimistic,
+    optimisticFailure: props.optimisticFailure,
+    batchSize: props.batchSize,
+    concurrency: props.concurrency,
+    versioning: props.versioning,
+    syncInterval: props.syncInterval,
+    foregroundSyncGap: props.foregroundSyncGap,
+    migrations: props.migrations,
+    storageLayout: props.storageLayout,
+    writeDelay: props.writeDelay,
+    loadChunkSize: props.loadChunkSize,
+    indexes: props.indexes,
+    scope: props.scope,
+    scopeMatcher: props.scopeMatcher,
+    onSyncStart: props.onSyncStart,
+    onItemSynced: props.onItemSynced,
+    onConflict: props.onConflict,
+    onSyncComplete: props.onSyncComplete,
+  };
+
+  // Every hook bound to the same collection shares its engine
+  const registry = useNexusSyncRegistry();
+  const engine = registry.getEngine<T>({
+    async_DATA_KEY: props.async_DATA_KEY,
+    storage,
+    initialData: props.data,
+    encryption: props.encryption,
+    ...options,
+  });
+  // Given to the engine when it is created, then kept up to date
+  useEffect(() => {
+    engine.setOptions(options);
+  });
+
+  const [state, setState] = useState(engine.getState());
+  const syncingData = useRef<boolean>(state.isSyncing);
+  syncingData.current = state.isSyncing;
+
+  // CONTROL VARIABLES
+  const [backOnLine, setBackOnLine] = useState<boolean>(false);
+  const lastPublishedData = useRef(props.data);
+  const latestProps = useRef(props);
+  latestProps.current = props;
+
+  // ENGINE SUBSCRIPTION
+  useEffect(() => {
+    const release = registry.retain(engine);
+    const publish = (engineState: NexusSyncState<T>) => {
+      setState(engineState);
+      if (engineState.data !== lastPublishedData.current) {
+        lastPublishedData.current = engineState.data;
+        latestProps.current.setData?.(engineState.data);
+      }
+    };
+    // The collection may have been loaded by another component already
+    publish(engine.getState());
+    const unsubscribe = engine.subscribe(publish);
+    return () => {
+      unsubscribe();
+      release();
+    };
+  }, [registry, engine]);
+
+  // Collections set directly by the app are taken over by the engine, once
+  // mounted so that a collection already loaded is not reset
+  const previousData = useRef(props.data);
+  useEffect(() => {
+    if (props.data === previousData.current) {
+      return;
+    }
+    previousData.current = props.data;
+    if (props.data && props.data !== lastPublishedData.current) {
+      lastPublishedData.current = props.data;
+      engine.replaceData(props.data);
+    }
+  }, [engine, props.data]);
+
+  const isOnline = state.isOnline;
+  useEffect(() => {
+    if (isOnline === null) {
+      return;
+    }
+    if (!isOnline) {
+      // HERE THE MANUAL HANDLE FUNCTION
+      setBackOnLine(true);
+      return;
+    }
+
+    // HERE THE AUTOMATIC HANDLE FUNCTION
+    const { autoRefreshOnBackOnline, onBackOnline } = latestProps.current;
+    // Another component of the collection may have synced it already, and
+    // a sync cancelled by a remount has to run again
+    if (autoRefreshOnBackOnline || !engine.getState().isLocalDataUptoDate) {
+      engine.sync();
+    }
+
+    onBackOnline && onBackOnline();
+  }, [engine, isOnline]);
+
+  /*
+			--- INITIAL LOAD ---
+	*/
+  useEffect(() => {
+    const { useMethodsOnly, loadFirstRemote, remoteMethods } =
+      latestProps.current;
+    if (useMethodsOnly) {
+      return;
+    }
+
+    engine.initialize();
+    if (
+      !loadFirstRemote ||
+      remoteMethods === undefined ||
+      (remoteMethods.GET === undefined &&
+        remoteMethods.GET_CHANGES === undefined)
+    ) {
+      engine.loadLocalData();
+    }
+  }, [engine]);
+
+  /*
+			--- EXPORTABLE FUNCTIONS ---
+	*/
+  const getRemoteData = useCallback(() => engine.sync(), [engine]);
+
+  const refreshData = useCallback(() => {
+    engine.refresh();
+    setBackOnLine(false);
+  }, [engine]);
+
+  const saveItem = useCallback((item: T) => engine.saveItem(item), [engine]);
+
+  const updateItem = useCallback(
+    (item: T) => engine.updateItem(item),
+    [engine]
+  );
+
+  const deleteItem = useCallback(
+    (item: T) => engine.deleteItem(item),
+    [engine]
+  );
+
+  const resolveConflict = useCallback(
+    (itemId: string, decision: NexusConflictDecision) =>
+      engine.resolveConflict(itemId, decision),
+    [engine]
+  );
+
+  const retryDeadLetter = useCallback(
+    (operationId: string) => engine.retryDeadLetter(operationId),
+    [engine]
+  );
+
+  const discardDeadLetter = useCallback(
+    (operationId: string) => engine.discardDeadLetter(operationId),
+    [engine]
+  );
+
+  const resolveId = useCallback((id: string) => engine.resolveId(id), [engine]);
+
+  const cancelSync = useCallback(() => engine.cancel(), [engine]);
+
+  const setServerTime = useCallback(
+    (serverTime: number | string) => engine.setServerTime(serverTime),
+    [engine]
+  );
+
+  const clearErrors = useCallback(() => engine.clearErrors(), [engine]);
+
+  const getItemSyncStatus = useCallback(
+    (id: string) => engine.getItemSyncStatus(id),
+    [engine]
+  );
+
+  const query = useCallback(
+    (nexusQuery?: NexusQuery<T>) => engine.query(nexusQuery),
+    [engine]
+  );
+
+  const idAttributeName = props.idAttributeName;
+  const itemsWithStatus = useMemo(
+    () => getItemsWithStatus(state.data, state.recordMetadata, idAttributeName),
+    [state.data, state.recordMetadata, idAttributeName]
+  );
+
+  const encryption = props.encryption;
+  const deleteAllLocalSavedData = useCallback(
+    // Collections in use hold pending changes and read their records
+    // through their own storage, encrypted or not
+    () =>
+      registry.clearAll().then(() => deleteAllCollections(storage, encryption)),
+    [registry, storage, encryption]
+  );
+
+  return {
+    data: state.data,
+    isLoading: state.isLoading,
+    syncingData,
+    isOnline: state.isOnline,
+    isReachable: state.isReachable,
+    error: state.error,
+    errors: state.errors,
+    backOnLine,
+    isLocalDataUptoDate: state.isLocalDataUptoDate,
+    lastSyncedAt: state.lastSyncedAt,
+    isRemoteDataUptoDate: state.isRemoteDataUptoDate,
+    numberOfChangesPending: state.numberOfChangesPending,
+    deadLetters: state.deadLetters,
+    pendingConflicts: state.pendingConflicts,
+    itemsWithStatus,
+    refreshData,
+    saveItem,
+    updateItem,
+    deleteItem,
+    resolveConflict,
+    retryDeadLetter,
+    discardDeadLetter,
+    resolveId,
+    clearErrors,
+    cancelSync,
+    setServerTime,
+    getItemSyncStatus,
+    query,
+    getRemoteData,
+    deleteAllLocalSavedData,
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * How `modificationDateAttributeName` is stamped on local changes and
+ * compared between versions:
+ * - `ISO`: ISO 8601 date in UTC, with milliseconds
+ * - `EPOCH`: milliseconds since epoch
+ * - `SERVER`: number issued by the remote, never stamped locally
+ * - `HLC`: hybrid logical clock, ordered even when device clocks disagree
+ */
+export type NexusVersioning = 'ISO' | 'EPOCH' | 'SERVER' | 'HLC';
+
+export const DEFAULT_VERSIONING: NexusVersioning = 'ISO';
+
+// Dates without a timezone, as stamped by older versions, are UTC
+const ZONELESS_DATE = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+const HLC_PATTERN = /^(\d{15})-([0-9a-z]{4})-(.+)$/;
+
+interface NexusHlc {
+  time: number;
+  counter: number;
+  node: string;
+}
+
+/** Milliseconds since epoch of a date or epoch value, if it is one. */
+export function parseTimestamp(value: unknown): number | undefined {
+  let timestamp = NaN;
+  if (typeof value === 'number') {
+    timestamp = value;
+  } else if (typeof value === 'string') {
+    timestamp = ZONELESS_DATE.test(value)
+      ? Date.parse(value.replace(' ', 'T') + 'Z')
+      : Date.parse(value);
+  } else if (value instanceof Date) {
+    timestamp = value.getTime();
+  }
+  return isNaN(timestamp) ? undefined : timestamp;
+}
+
+function parseHlc(value: unknown): NexusHlc | undefined {
+  const match = typeof value === 'string' ? HLC_PATTERN.exec(value) : null;
+  if (!match) {
+    return undefined;
+  }
+  return {
+    time: Number(match[1]),
+    counter: parseInt(match[2] as string, 36),
+    node: match[3] as string,
+  };
+}
+
+const formatHlc = ({ time, counter, node }: NexusHlc) =>
+  `${String(time).padStart(15, '0')}-${counter
+    .toString(36)
+    .padStart(4, '0')}-${node}`;
+
+/**
+ * Orders two versions: negative when `a` is older, positive when it is newer.
+ * `undefined` when they can not be compared.
+ */
+export function compareVersions(
+  a: unknown,
+  b: unknown,
+  versioning: NexusVersioning = DEFAULT_VERSIONING
+): number | undefined {
+  if (versioning === 'HLC') {
+    const hlcA = parseHlc(a);
+    const hlcB = parseHlc(b);
+    if (!hlcA || !hlcB) {
+      return undefined;
+    }
+    return (
+      hlcA.time - hlcB.time ||
+      hlcA.counter - hlcB.counter ||
+      (hlcA.node < hlcB.node ? -1 : hlcA.node > hlcB.node ? 1 : 0)
+    );
+  }
+
+  const versionA = versioning === 'SERVER' ? Number(a) : parseTimestamp(a);
+  const versionB = versioning === 'SERVER' ? Number(b) : parseTimestamp(b);
+  if (
+    versionA === undefined ||
+    versionB === undefined ||
+    isNaN(versionA) ||
+    isNaN(versionB)
+  ) {
+    return undefined;
+  }
+  return versionA - versionB;
+}
+
+/**
+ * Stamps local changes. Its time follows the remote one once a server time
+ * has been reported, so versions made on a device with a wrong clock still
+ * order correctly against the others.
+ */
+export class NexusClock {
+  private offset = 0;
+  private last: NexusHlc;
+
+  constructor(node = Math.random().toString(36).slice(2, 10)) {
+    this.last = { time: 0, counter: 0, node };
+  }
+
+  /** Current time of the remote, as far as the device can tell. */
+  now(): number {
+    return Date.now() + this.offset;
+  }
+
+  /** Learns how far the device clock is from the remote one. */
+  setServerTime(serverTime: unknown): void {
+    const timestamp = parseTimestamp(serverTime);
+    if (timestamp !== undefined) {
+      this.offset = timestamp - Date.now();
+    }
+  }
+
+  /**
+   * Version of a local change. `SERVER` versions are only issued by the
+   * remote, so the current one is kept.
+   */
+  stamp(versioning: NexusVersioning, currentVersion: unknown): unknown {
+    switch (versioning) {
+      case 'EPOCH':
+        return this.now();
+      case 'SERVER':
+        return currentVersion;
+      case 'HLC':
+        return this.tick();
+      default:
+        return new Date(this.now()).toISOString();
+    }
+  }
+
+  /** Moves the logical clock past a version seen on the remote. */
+  receive(version: unknown): void {
+    const remote = parseHlc(version);
+    if (!remote) {
+      return;
+    }
+
+    const time = Math.max(this.now(), this.last.time, remote.time);
+    let counter = 0;
+    if (time === this.last.time && time === remote.time) {
+      counter = Math.max(this.last.counter, remote.counter) + 1;
+    } else if (time === this.last.time) {
+      counter = this.last.counter + 1;
+    } else if (time === remote.time) {
+      counter = remote.counter + 1;
+    }
+    this.last = { ...this.last, time, counter };
+  }
+
+  private tick(): string {
+    const time = Math.max(this.now(), this.last.time);
+    const counter = time === this.last.time ? this.last.counter + 1 : 0;
+    this.last = { ...this.last, time, counter };
+    return formatHlc(this.last);
+  }
+}